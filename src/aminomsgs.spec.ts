@@ -0,0 +1,215 @@
+import { toUtf8 } from "@cosmjs/encoding";
+import { Registry } from "@cosmjs/proto-signing";
+import { AminoTypes } from "@cosmjs/stargate";
+import { TextProposal, VoteOption } from "cosmjs-types/cosmos/gov/v1beta1/gov";
+import Long from "long";
+
+import { createDefaultAminoConverters, defaultCyberRegistryTypes } from "./signingcyberclient";
+
+const neuron = "bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm";
+const recipient = "bostrom1qgpqyqszqgpqyqszqgpqyqszqgpqyqszqyngcd";
+const validator = "bostromvaloper1qyqszqgpqyqszqgpqyqszqgpqyqszqgpf6jjrc";
+const otherValidator = "bostromvaloper1qvpsxqcrqvpsxqcrqvpsxqcrqvpsxqcrew4kz0";
+const contract = "bostrom1q5zs2pg9q5zs2pg9q5zs2pg9q5zs2pg9q5zs2pg9q5zs2pg9q5zsdca0wj";
+const boot = { denom: "boot", amount: "1234567" };
+const hydrogen = { denom: "hydrogen", amount: "89" };
+const description = {
+  moniker: "moniker",
+  identity: "identity",
+  website: "https://cyb.ai",
+  securityContact: "security@cyb.ai",
+  details: "details",
+};
+
+/** Values of the messages with an amino converter, the other registered types are encoded with their defaults */
+const messages: Record<string, unknown> = {
+  "/cosmos.bank.v1beta1.MsgMultiSend": {
+    inputs: [{ address: neuron, coins: [boot, hydrogen] }],
+    outputs: [{ address: recipient, coins: [boot, hydrogen] }],
+  },
+  "/cosmos.bank.v1beta1.MsgSend": { fromAddress: neuron, toAddress: recipient, amount: [boot] },
+  "/cosmos.distribution.v1beta1.MsgFundCommunityPool": { amount: [boot], depositor: neuron },
+  "/cosmos.distribution.v1beta1.MsgSetWithdrawAddress": {
+    delegatorAddress: neuron,
+    withdrawAddress: recipient,
+  },
+  "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward": {
+    delegatorAddress: neuron,
+    validatorAddress: validator,
+  },
+  "/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission": { validatorAddress: validator },
+  "/cosmos.gov.v1beta1.MsgDeposit": {
+    proposalId: Long.fromNumber(42, true),
+    depositor: neuron,
+    amount: [boot],
+  },
+  "/cosmos.gov.v1beta1.MsgSubmitProposal": {
+    content: {
+      typeUrl: "/cosmos.gov.v1beta1.TextProposal",
+      value: TextProposal.encode(
+        TextProposal.fromPartial({ title: "title", description: "description" }),
+      ).finish(),
+    },
+    initialDeposit: [boot],
+    proposer: neuron,
+  },
+  "/cosmos.gov.v1beta1.MsgVote": {
+    proposalId: Long.fromNumber(42, true),
+    voter: neuron,
+    option: VoteOption.VOTE_OPTION_NO_WITH_VETO,
+  },
+  "/cosmos.staking.v1beta1.MsgBeginRedelegate": {
+    delegatorAddress: neuron,
+    validatorSrcAddress: validator,
+    validatorDstAddress: otherValidator,
+    amount: boot,
+  },
+  "/cosmos.staking.v1beta1.MsgCreateValidator": {
+    description: description,
+    commission: {
+      rate: "100000000000000000",
+      maxRate: "200000000000000000",
+      maxChangeRate: "10000000000000000",
+    },
+    minSelfDelegation: "1",
+    delegatorAddress: neuron,
+    validatorAddress: validator,
+    pubkey: {
+      typeUrl: "/cosmos.crypto.secp256k1.PubKey",
+      value: new Uint8Array([2, ...new Array(32).fill(7)]),
+    },
+    value: boot,
+  },
+  "/cosmos.staking.v1beta1.MsgDelegate": {
+    delegatorAddress: neuron,
+    validatorAddress: validator,
+    amount: boot,
+  },
+  "/cosmos.staking.v1beta1.MsgEditValidator": {
+    description: description,
+    validatorAddress: validator,
+    commissionRate: "110000000000000000",
+    minSelfDelegation: "2",
+  },
+  "/cosmos.staking.v1beta1.MsgUndelegate": {
+    delegatorAddress: neuron,
+    validatorAddress: validator,
+    amount: boot,
+  },
+  "/cosmwasm.wasm.v1.MsgExecuteContract": {
+    sender: neuron,
+    contract: contract,
+    msg: toUtf8(JSON.stringify({ transfer: { recipient: recipient, amount: "5" } })),
+    funds: [boot],
+  },
+  "/cosmwasm.wasm.v1.MsgInstantiateContract": {
+    sender: neuron,
+    admin: recipient,
+    codeId: Long.fromNumber(3, true),
+    label: "label",
+    msg: toUtf8(JSON.stringify({ name: "token" })),
+    funds: [hydrogen],
+  },
+  "/cosmwasm.wasm.v1.MsgStoreCode": {
+    sender: neuron,
+    wasmByteCode: new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0]),
+  },
+  "/cyber.graph.v1beta1.MsgCyberlink": {
+    neuron: neuron,
+    links: [
+      {
+        from: "QmYpZS5Hgxmpf5qgULCaTgcRwGSz8gpVuiGzbH3eAFhVoL",
+        to: "QmUX9mt8ftaHcn9Nc6SR4j9MsKkYfkcZqkfPTmMmBgeTe4",
+      },
+    ],
+  },
+  "/cyber.grid.v1beta1.MsgCreateRoute": { source: neuron, destination: recipient, name: "route" },
+  "/cyber.grid.v1beta1.MsgDeleteRoute": { source: neuron, destination: recipient },
+  "/cyber.grid.v1beta1.MsgEditRoute": {
+    source: neuron,
+    destination: recipient,
+    value: { denom: "milliampere", amount: "1000" },
+  },
+  "/cyber.grid.v1beta1.MsgEditRouteName": { source: neuron, destination: recipient, name: "renamed" },
+  "/cyber.resources.v1beta1.MsgInvestmint": {
+    neuron: neuron,
+    amount: { denom: "hydrogen", amount: "1000000" },
+    resource: "millivolt",
+    length: Long.fromNumber(86400, true),
+  },
+  "/ibc.applications.transfer.v1.MsgTransfer": {
+    sourcePort: "transfer",
+    sourceChannel: "channel-2",
+    token: boot,
+    sender: neuron,
+    receiver: "cosmos1qyqszqgpqyqszqgpqyqszqgpqyqszqgpjnp7du",
+    timeoutHeight: { revisionNumber: Long.fromNumber(4, true), revisionHeight: Long.fromNumber(123, true) },
+    timeoutTimestamp: Long.fromString("1666000000000000000", true),
+  },
+  "/tendermint.liquidity.v1beta1.MsgCreatePool": {
+    poolCreatorAddress: neuron,
+    poolTypeId: 1,
+    depositCoins: [boot, hydrogen],
+  },
+  "/tendermint.liquidity.v1beta1.MsgDepositWithinBatch": {
+    depositorAddress: neuron,
+    poolId: Long.fromNumber(5, true),
+    depositCoins: [boot, hydrogen],
+  },
+  "/tendermint.liquidity.v1beta1.MsgSwapWithinBatch": {
+    swapRequesterAddress: neuron,
+    poolId: Long.fromNumber(5, true),
+    swapTypeId: 1,
+    offerCoin: boot,
+    demandCoinDenom: "hydrogen",
+    offerCoinFee: { denom: "boot", amount: "1852" },
+    orderPrice: "1150000000000000000",
+  },
+  "/tendermint.liquidity.v1beta1.MsgWithdrawWithinBatch": {
+    withdrawerAddress: neuron,
+    poolId: Long.fromNumber(5, true),
+    poolCoin: { denom: "pool5", amount: "1000" },
+  },
+};
+
+describe("default message types", () => {
+  const registry = new Registry(defaultCyberRegistryTypes);
+  const converters = createDefaultAminoConverters("bostrom");
+  const aminoTypes = new AminoTypes(converters);
+
+  it("have an amino converter for every cyber and liquidity message", () => {
+    const typeUrls = defaultCyberRegistryTypes
+      .map(([typeUrl]) => typeUrl)
+      .filter((typeUrl) => typeUrl.startsWith("/cyber.") || typeUrl.startsWith("/tendermint.liquidity."));
+    expect(typeUrls.length).toEqual(10);
+    expect(typeUrls.filter((typeUrl) => !(typeUrl in converters))).toEqual([]);
+  });
+
+  it("have a message value for every type with an amino converter", () => {
+    const typeUrls = defaultCyberRegistryTypes.map(([typeUrl]) => typeUrl);
+    expect(typeUrls.filter((typeUrl) => typeUrl in converters && !(typeUrl in messages))).toEqual([]);
+  });
+
+  for (const [typeUrl] of defaultCyberRegistryTypes) {
+    describe(typeUrl, () => {
+      const message = { typeUrl: typeUrl, value: messages[typeUrl] ?? {} };
+      const converter = converters[typeUrl];
+
+      it("round-trips through protobuf", () => {
+        const encoded = registry.encode(message);
+        const decoded = registry.decode({ typeUrl: typeUrl, value: encoded });
+        expect(registry.encode({ typeUrl: typeUrl, value: decoded })).toEqual(encoded);
+      });
+
+      if (converter && converter !== "not_supported_by_chain") {
+        it("round-trips through amino", () => {
+          const aminoMsg = aminoTypes.toAmino(message);
+          expect(aminoMsg.type).toEqual(converter.aminoType);
+          const restored = aminoTypes.fromAmino(JSON.parse(JSON.stringify(aminoMsg)));
+          expect(restored.typeUrl).toEqual(typeUrl);
+          expect(registry.encode(restored)).toEqual(registry.encode(message));
+        });
+      }
+    });
+  }
+});
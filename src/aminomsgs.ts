@@ -1,3 +1,4 @@
+/* eslint-disable @typescript-eslint/naming-convention */
 import { AminoMsg, Coin } from "@cosmjs/amino";
 import { AminoConverters } from "@cosmjs/stargate";
 import { assertDefinedAndNotNull, isNonNullObject } from "@cosmjs/utils";
@@ -13,6 +14,7 @@ import {
 } from "./codec/cyber/grid/v1beta1/tx";
 import { MsgInvestmint } from "./codec/cyber/resources/v1beta1/tx";
 import {
+  MsgCreatePool,
   MsgDepositWithinBatch,
   MsgSwapWithinBatch,
   MsgWithdrawWithinBatch,
@@ -104,6 +106,19 @@ export function isAminoMsgEditRouteName(msg: AminoMsg): msg is AminoMsgEditRoute
 
 // Liquidity module
 
+export interface AminoMsgCreatePool extends AminoMsg {
+  readonly type: "liquidity/MsgCreatePool";
+  readonly value: {
+    readonly pool_creator_address: string;
+    readonly pool_type_id: number;
+    readonly deposit_coins: Coin[];
+  };
+}
+
+export function isAminoMsgCreatePool(msg: AminoMsg): msg is AminoMsgCreatePool {
+  return msg.type === "liquidity/MsgCreatePool";
+}
+
 export interface AminoMsgSwapWithinBatch extends AminoMsg {
   readonly type: "liquidity/MsgSwapWithinBatch";
   readonly value: {
@@ -254,6 +269,27 @@ export function createCyberAminoConverters(): AminoConverters {
         name: name,
       }),
     },
+    "/tendermint.liquidity.v1beta1.MsgCreatePool": {
+      aminoType: "liquidity/MsgCreatePool",
+      toAmino: ({
+        poolCreatorAddress,
+        poolTypeId,
+        depositCoins,
+      }: MsgCreatePool): AminoMsgCreatePool["value"] => ({
+        pool_creator_address: poolCreatorAddress,
+        pool_type_id: poolTypeId,
+        deposit_coins: depositCoins,
+      }),
+      fromAmino: ({
+        pool_creator_address,
+        pool_type_id,
+        deposit_coins,
+      }: AminoMsgCreatePool["value"]): MsgCreatePool => ({
+        poolCreatorAddress: pool_creator_address,
+        poolTypeId: pool_type_id,
+        depositCoins: deposit_coins,
+      }),
+    },
     // not working (signature verification failed; lease verify account number (#), sequence (#) and chain-id (#): unauthorized)
     "/tendermint.liquidity.v1beta1.MsgSwapWithinBatch": {
       aminoType: "liquidity/MsgSwapWithinBatch",
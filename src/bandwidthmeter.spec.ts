@@ -0,0 +1,72 @@
+import {
+  affordableCyberlinks,
+  bandwidthRecoveryHeight,
+  cyberlinksBandwidthCost,
+  forecastCyberlinks,
+  remainedBandwidthAt,
+} from "./bandwidthmeter";
+import { NeuronBandwidth } from "./types";
+
+const neuronBandwidth: NeuronBandwidth = {
+  neuron: "bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm",
+  remainedValue: "100",
+  maxValue: "1000",
+  lastUpdatedBlock: 10,
+};
+const params = { recoveryPeriod: 100 };
+
+describe("cyberlinksBandwidthCost", () => {
+  it("charges 1000 per cyberlink at the price, truncated", () => {
+    expect(cyberlinksBandwidthCost(3, "0.25")).toEqual(750);
+    expect(cyberlinksBandwidthCost(1, "0.3333")).toEqual(333);
+    expect(cyberlinksBandwidthCost(0, "0.25")).toEqual(0);
+  });
+});
+
+describe("affordableCyberlinks", () => {
+  it("counts the cyberlinks whose truncated cost fits the bandwidth", () => {
+    expect(affordableCyberlinks(1000, "0.3333")).toEqual(3);
+    // Three cyberlinks cost 999.9, truncated to 999
+    expect(affordableCyberlinks(999, "0.3333")).toEqual(3);
+    expect(affordableCyberlinks(998, "0.3333")).toEqual(2);
+    expect(affordableCyberlinks(0, "0.25")).toEqual(0);
+  });
+
+  it("is unbounded when cyberlinks are free", () => {
+    expect(affordableCyberlinks(0, "0")).toEqual(Number.POSITIVE_INFINITY);
+  });
+});
+
+describe("remainedBandwidthAt", () => {
+  it("recovers the maximum bandwidth linearly over the recovery period", () => {
+    expect(remainedBandwidthAt(neuronBandwidth, params, 10)).toEqual(100);
+    expect(remainedBandwidthAt(neuronBandwidth, params, 20)).toEqual(200);
+    expect(remainedBandwidthAt(neuronBandwidth, params, 25)).toEqual(250);
+    expect(remainedBandwidthAt(neuronBandwidth, params, 200)).toEqual(1000);
+  });
+});
+
+describe("bandwidthRecoveryHeight", () => {
+  it("returns the first height with enough bandwidth", () => {
+    expect(bandwidthRecoveryHeight(neuronBandwidth, params, 20, 150)).toEqual(20);
+    expect(bandwidthRecoveryHeight(neuronBandwidth, params, 20, 500)).toEqual(50);
+    expect(remainedBandwidthAt(neuronBandwidth, params, 49)).toBeLessThan(500);
+    expect(remainedBandwidthAt(neuronBandwidth, params, 50)).toEqual(500);
+  });
+
+  it("returns null for more than the maximum bandwidth", () => {
+    expect(bandwidthRecoveryHeight(neuronBandwidth, params, 20, 1001)).toBeNull();
+  });
+});
+
+describe("forecastCyberlinks", () => {
+  it("projects when the cyberlinks become affordable", () => {
+    expect(forecastCyberlinks(neuronBandwidth, params, 20, 2, "0.25")).toEqual({
+      required: 500,
+      remained: 200,
+      affordableHeight: 50,
+      blocksToWait: 30,
+    });
+    expect(forecastCyberlinks(neuronBandwidth, params, 20, 5, "0.25").affordableHeight).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { Decimal, Uint53 } from "@cosmjs/math";
+
+import { BandwidthParams, NeuronBandwidth } from "./types";
+
+/**
+ * Bandwidth charged for a single cyberlink before the price is applied.
+ * Mirrors the cost used by the bandwidth meter of go-cyber.
+ */
+export const cyberlinkBaseCost = 1000;
+
+export class InsufficientBandwidthError extends Error {
+  public readonly neuron: string;
+  /** Bandwidth the pending cyberlinks cost at the current price */
+  public readonly required: number;
+  /** Bandwidth the neuron has left at the current height */
+  public readonly remained: number;
+  /**
+   * Height at which the neuron will have recovered enough bandwidth,
+   * or null if the required amount exceeds the neuron's maximum bandwidth.
+   */
+  public readonly recoveryHeight: number | null;
+
+  public constructor(
+    message: string,
+    neuron: string,
+    required: number,
+    remained: number,
+    recoveryHeight: number | null,
+  ) {
+    super(message);
+    this.neuron = neuron;
+    this.required = required;
+    this.remained = remained;
+    this.recoveryHeight = recoveryHeight;
+  }
+}
+
+/**
+ * Returns the bandwidth a transaction with the given number of cyberlinks costs
+ * at the given price (a decimal string as returned by `CyberClient.getPrice`).
+ */
+export function cyberlinksBandwidthCost(linksCount: number, price: string): number {
+  const cost = Decimal.fromUserInput(price, 18).multiply(new Uint53(linksCount * cyberlinkBaseCost));
+  return Number(cost.toString().split(".")[0]);
+}
+
+/**
+ * Returns how many cyberlinks fit into the given amount of bandwidth at the given price.
+ * This is unbounded (Infinity) when cyberlinks are free.
+ */
+export function affordableCyberlinks(bandwidth: number, price: string): number {
+  const unitCost = Number(price) * cyberlinkBaseCost;
+  if (unitCost <= 0) return Number.POSITIVE_INFINITY;
+  let count = Math.max(Math.floor(bandwidth / unitCost), 0);
+  // Correct the float estimate against the exact, truncated cost
+  while (count > 0 && cyberlinksBandwidthCost(count, price) > bandwidth) count--;
+  while (cyberlinksBandwidthCost(count + 1, price) <= bandwidth) count++;
+  return count;
+}
+
+/**
+ * Returns the bandwidth the neuron will have at the given height,
+ * taking linear recovery over `recoveryPeriod` blocks into account.
+ */
+export function remainedBandwidthAt(
+  { remainedValue, maxValue, lastUpdatedBlock }: NeuronBandwidth,
+  { recoveryPeriod }: Pick<BandwidthParams, "recoveryPeriod">,
+  height: number,
+): number {
+  const remained = Number(remainedValue);
+  const max = Number(maxValue);
+  if (height <= lastUpdatedBlock || recoveryPeriod <= 0) return Math.min(remained, max);
+  const recovered = Math.floor(((height - lastUpdatedBlock) * max) / recoveryPeriod);
+  return Math.min(remained + recovered, max);
+}
+
+/**
+ * Returns the first height at which the neuron has at least `required` bandwidth,
+ * or null if it never will because its maximum bandwidth is too low.
+ */
+export function bandwidthRecoveryHeight(
+  neuronBandwidth: NeuronBandwidth,
+  params: Pick<BandwidthParams, "recoveryPeriod">,
+  height: number,
+  required: number,
+): number | null {
+  const max = Number(neuronBandwidth.maxValue);
+  if (required > max) return null;
+  if (remainedBandwidthAt(neuronBandwidth, params, height) >= required) return height;
+  const deficit = required - Number(neuronBandwidth.remainedValue);
+  const recoveryHeight =
+    neuronBandwidth.lastUpdatedBlock + Math.ceil((deficit * params.recoveryPeriod) / max);
+  return Math.max(recoveryHeight, height);
+}
+
+export interface CyberlinksForecast {
+  /** Bandwidth the cyberlinks cost at the given price */
+  readonly required: number;
+  /** Bandwidth the neuron has at the given height */
+  readonly remained: number;
+  /** First height at which the neuron can afford the cyberlinks, or null if it never will */
+  readonly affordableHeight: number | null;
+  /** Blocks to wait until `affordableHeight`, 0 if the cyberlinks are affordable already */
+  readonly blocksToWait: number | null;
+}
+
+/**
+ * Projects when the neuron can afford a transaction with the given number of cyberlinks,
+ * assuming the price stays as it is and the neuron spends no bandwidth in the meantime.
+ */
+export function forecastCyberlinks(
+  neuronBandwidth: NeuronBandwidth,
+  params: Pick<BandwidthParams, "recoveryPeriod">,
+  height: number,
+  linksCount: number,
+  price: string,
+): CyberlinksForecast {
+  const required = cyberlinksBandwidthCost(linksCount, price);
+  const affordableHeight = bandwidthRecoveryHeight(neuronBandwidth, params, height, required);
+  return {
+    required: required,
+    remained: remainedBandwidthAt(neuronBandwidth, params, height),
+    affordableHeight: affordableHeight,
+    blocksToWait: affordableHeight === null ? null : affordableHeight - height,
+  };
+}
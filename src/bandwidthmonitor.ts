@@ -0,0 +1,126 @@
+import { Tendermint34Client } from "@cosmjs/tendermint-rpc";
+
+export interface BandwidthSample {
+  /** Height of the block that triggered the sample */
+  readonly height: number;
+  /** Network load as a decimal string */
+  readonly load: string;
+  /** Bandwidth price as a decimal string */
+  readonly price: string;
+  /** Average load over the last `window` samples */
+  readonly averageLoad: number;
+  /** Average price over the last `window` samples */
+  readonly averagePrice: number;
+}
+
+export interface BandwidthAlert {
+  readonly kind: "load" | "price";
+  /** True when the value rose above the threshold, false when it fell back to or below it */
+  readonly exceeded: boolean;
+  readonly threshold: number;
+  readonly sample: BandwidthSample;
+}
+
+export interface BandwidthMonitorOptions {
+  /** Sample every `interval` blocks. Defaults to 1. */
+  readonly interval?: number;
+  /** Number of samples the moving averages are calculated over. Defaults to 10. */
+  readonly window?: number;
+  /** Alert when the load crosses this value */
+  readonly maxLoad?: number;
+  /** Alert when the price crosses this value */
+  readonly maxPrice?: number;
+  readonly onSample?: (sample: BandwidthSample) => void;
+  readonly onAlert?: (alert: BandwidthAlert) => void;
+  /**
+   * Called when sampling or the block subscription fails. After a failed sample, sampling continues
+   * with the next block. A subscription error ends the subscription, and no further samples are taken.
+   */
+  readonly onError?: (error: unknown) => void;
+}
+
+export type BandwidthSampler = () => Promise<{ readonly load: string; readonly price: string }>;
+
+function average(values: readonly number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Samples network load and bandwidth price on new blocks and reports moving averages
+ * and threshold crossings.
+ *
+ * Block subscriptions need a websocket connection to the node. The monitor stops for good
+ * if the subscription fails, in which case a new monitor has to be started.
+ */
+export class BandwidthMonitor {
+  private readonly sampler: BandwidthSampler;
+  private readonly options: BandwidthMonitorOptions;
+  private readonly interval: number;
+  private readonly window: number;
+  private readonly loads: number[] = [];
+  private readonly prices: number[] = [];
+  private loadExceeded = false;
+  private priceExceeded = false;
+  private sampling = false;
+  private blocksSinceSample: number;
+  private readonly subscription: { readonly unsubscribe: () => void };
+
+  public constructor(
+    tmClient: Tendermint34Client,
+    sampler: BandwidthSampler,
+    options: BandwidthMonitorOptions,
+  ) {
+    this.sampler = sampler;
+    this.options = options;
+    this.interval = Math.max(options.interval ?? 1, 1);
+    this.window = Math.max(options.window ?? 10, 1);
+    this.blocksSinceSample = this.interval - 1;
+    this.subscription = tmClient.subscribeNewBlockHeader().subscribe({
+      next: ({ height }) => this.onBlock(height),
+      error: (error) => this.options.onError?.(error),
+      complete: () => {},
+    });
+  }
+
+  public stop(): void {
+    this.subscription.unsubscribe();
+  }
+
+  private onBlock(height: number): void {
+    this.blocksSinceSample++;
+    // Skip blocks while the previous sample is still being queried
+    if (this.blocksSinceSample < this.interval || this.sampling) return;
+    this.blocksSinceSample = 0;
+    this.sampling = true;
+    this.sample(height)
+      .catch((error) => this.options.onError?.(error))
+      .finally(() => (this.sampling = false));
+  }
+
+  private async sample(height: number): Promise<void> {
+    const { load, price } = await this.sampler();
+    this.loads.push(Number(load));
+    this.prices.push(Number(price));
+    if (this.loads.length > this.window) this.loads.shift();
+    if (this.prices.length > this.window) this.prices.shift();
+
+    const sample: BandwidthSample = {
+      height: height,
+      load: load,
+      price: price,
+      averageLoad: average(this.loads),
+      averagePrice: average(this.prices),
+    };
+    this.options.onSample?.(sample);
+
+    const { maxLoad, maxPrice, onAlert } = this.options;
+    if (maxLoad !== undefined && Number(load) > maxLoad !== this.loadExceeded) {
+      this.loadExceeded = !this.loadExceeded;
+      onAlert?.({ kind: "load", exceeded: this.loadExceeded, threshold: maxLoad, sample: sample });
+    }
+    if (maxPrice !== undefined && Number(price) > maxPrice !== this.priceExceeded) {
+      this.priceExceeded = !this.priceExceeded;
+      onAlert?.({ kind: "price", exceeded: this.priceExceeded, threshold: maxPrice, sample: sample });
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { toUtf8 } from "@cosmjs/encoding";
+import { Event } from "@cosmjs/tendermint-rpc";
+
+import { batchOrdersFromEvents } from "./batchorders";
+
+function event(type: string, attributes: Record<string, string>): Event {
+  return {
+    type: type,
+    attributes: Object.entries(attributes).map(([key, value]) => ({
+      key: toUtf8(key),
+      value: toUtf8(value),
+    })),
+  };
+}
+
+describe("batchOrdersFromEvents", () => {
+  it("lists the orders of a transaction in message order", () => {
+    const events = [
+      event("message", { action: "swap_within_batch" }),
+      event("swap_within_batch", {
+        pool_id: "5",
+        batch_index: "120",
+        msg_index: "3",
+        offer_coin_denom: "boot",
+      }),
+      event("deposit_within_batch", { pool_id: "2", batch_index: "7", msg_index: "0" }),
+      event("withdraw_within_batch", { pool_id: "5", batch_index: "120", msg_index: "1" }),
+    ];
+    expect(batchOrdersFromEvents(events)).toEqual([
+      { kind: "swap", poolId: 5, batchIndex: 120, msgIndex: 3 },
+      { kind: "deposit", poolId: 2, batchIndex: 7, msgIndex: 0 },
+      { kind: "withdraw", poolId: 5, batchIndex: 120, msgIndex: 1 },
+    ]);
+  });
+
+  it("ignores transactions without batch orders", () => {
+    expect(batchOrdersFromEvents([event("transfer", { recipient: "bostrom1", amount: "1boot" })])).toEqual(
+      [],
+    );
+  });
+
+  it("rejects order events without indexes", () => {
+    expect(() => batchOrdersFromEvents([event("swap_within_batch", { pool_id: "5" })])).toThrowError(
+      /missing the pool, batch or message index/,
+    );
+  });
+});
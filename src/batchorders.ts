@@ -0,0 +1,38 @@
+import { fromUtf8 } from "@cosmjs/encoding";
+import { Event } from "@cosmjs/tendermint-rpc";
+
+export type BatchOrderKind = "swap" | "deposit" | "withdraw";
+
+/** An order a transaction added to a pool batch */
+export interface BatchOrder {
+  readonly kind: BatchOrderKind;
+  readonly poolId: number;
+  readonly batchIndex: number;
+  /** Index of the order among the batch messages of its kind */
+  readonly msgIndex: number;
+}
+
+/** Event types the liquidity module emits when it accepts an order into a batch */
+const orderEventTypes: ReadonlyMap<string, BatchOrderKind> = new Map([
+  ["swap_within_batch", "swap"],
+  ["deposit_within_batch", "deposit"],
+  ["withdraw_within_batch", "withdraw"],
+]);
+
+/** Lists the batch orders of a transaction from the events it emitted, in message order */
+export function batchOrdersFromEvents(events: readonly Event[]): BatchOrder[] {
+  const orders: BatchOrder[] = [];
+  for (const { type, attributes } of events) {
+    const kind = orderEventTypes.get(type);
+    if (!kind) continue;
+    const values = new Map(attributes.map(({ key, value }) => [fromUtf8(key), fromUtf8(value)]));
+    const [poolId, batchIndex, msgIndex] = ["pool_id", "batch_index", "msg_index"].map((key) =>
+      Number(values.get(key)),
+    );
+    if ([poolId, batchIndex, msgIndex].some((value) => !Number.isSafeInteger(value))) {
+      throw new Error(`Event ${type} is missing the pool, batch or message index`);
+    }
+    orders.push({ kind: kind, poolId: poolId, batchIndex: batchIndex, msgIndex: msgIndex });
+  }
+  return orders;
+}
@@ -0,0 +1,40 @@
+import { Tendermint34Client } from "@cosmjs/tendermint-rpc";
+
+import { CyberClient } from "./cyberclient";
+
+const source = "bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm";
+const destination = "bostrom1qgpqyqszqgpqyqszqgpqyqszqgpqyqszqyngcd";
+
+/** Answers every ABCI query with the error the chain returns for entries that do not exist */
+const notFoundTmClient = {
+  abciQuery: async () => ({
+    key: new Uint8Array(),
+    value: new Uint8Array(),
+    height: 42,
+    code: 22,
+    log: "rpc error: code = NotFound desc = not found: key not found",
+  }),
+} as unknown as Tendermint34Client;
+
+class TestCyberClient extends CyberClient {
+  public constructor(tmClient: Tendermint34Client) {
+    super(tmClient);
+  }
+}
+
+describe("CyberClient", () => {
+  const client = new TestCyberClient(notFoundTmClient);
+
+  it("resolves a missing route to null", async () => {
+    expect(await client.getRoute(source, destination)).toBeNull();
+  });
+
+  it("resolves queries of unknown pools and batch messages to null", async () => {
+    expect(await client.getPool(99)).toBeNull();
+    expect(await client.getPoolState(99)).toBeNull();
+    expect(await client.getPoolBatch(99)).toBeNull();
+    expect(await client.getPoolBatchSwapMsg(99, 7)).toBeNull();
+    expect(await client.getPoolBatchDepositMsg(99, 7)).toBeNull();
+    expect(await client.getPoolBatchWithdrawMsg(99, 7)).toBeNull();
+  });
+});
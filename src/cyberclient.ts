@@ -29,10 +29,11 @@ import {
   setupStakingExtension,
   setupTxExtension,
   StakingExtension,
+  TimeoutError,
   TxExtension,
 } from "@cosmjs/stargate";
-import { Tendermint34Client, toRfc3339WithNanoseconds } from "@cosmjs/tendermint-rpc";
-import { assert } from "@cosmjs/utils";
+import { Event, Tendermint34Client, toRfc3339WithNanoseconds } from "@cosmjs/tendermint-rpc";
+import { assert, sleep } from "@cosmjs/utils";
 import {
   QueryCommunityPoolResponse,
   QueryDelegationRewardsResponse,
@@ -79,10 +80,15 @@ import {
 } from "cosmjs-types/cosmwasm/wasm/v1/query";
 import { ContractCodeHistoryOperationType } from "cosmjs-types/cosmwasm/wasm/v1/types";
 
+import { CyberlinksForecast, forecastCyberlinks, remainedBandwidthAt } from "./bandwidthmeter";
+import { BandwidthMonitor, BandwidthMonitorOptions } from "./bandwidthmonitor";
+import { BatchOrder, BatchOrderKind, batchOrdersFromEvents } from "./batchorders";
 import {
   QueryLoadResponse,
   QueryNeuronBandwidthResponse,
+  QueryParamsResponse as QueryParamsResponseBandwidth,
   QueryPriceResponse,
+  QueryTotalBandwidthResponse,
 } from "./codec/cyber/bandwidth/v1beta1/query";
 import { QueryGraphStatsResponse } from "./codec/cyber/graph/v1beta1/query";
 import {
@@ -94,15 +100,46 @@ import {
 import {
   QueryKarmaResponse,
   QueryLinkExistResponse,
+  QueryNegentropyParticleResponse,
+  QueryNegentropyResponse,
+  QueryParamsResponse as QueryParamsResponseRank,
   QueryRankResponse,
   QuerySearchResponse,
 } from "./codec/cyber/rank/v1beta1/query";
+import { RankedParticle } from "./codec/cyber/rank/v1beta1/types";
 import { QueryParamsResponse as QueryParamsResponseResources } from "./codec/cyber/resources/v1beta1/query";
 import {
+  QueryLiquidityPoolBatchResponse,
   QueryLiquidityPoolResponse,
   QueryLiquidityPoolsResponse,
   QueryParamsResponse as QueryParamsResponseLiquidity,
+  QueryPoolBatchDepositMsgResponse,
+  QueryPoolBatchDepositMsgsResponse,
+  QueryPoolBatchSwapMsgResponse,
+  QueryPoolBatchSwapMsgsResponse,
+  QueryPoolBatchWithdrawMsgResponse,
+  QueryPoolBatchWithdrawMsgsResponse,
 } from "./codec/tendermint/liquidity/v1beta1/query";
+import { buildEnergyGraph, EnergyBalance, energyBalance, EnergyGraph } from "./energygraph";
+import {
+  bostromHalvingSchedule,
+  investmintCalculator,
+  InvestmintHalvingSchedule,
+  InvestmintPlan,
+  InvestmintPreview,
+  InvestmintSlots,
+  investmintSlotsFromAccount,
+  planInvestmintAmount,
+  planInvestmintLength,
+} from "./investmint";
+import {
+  PoolAnalytics,
+  poolAnalytics,
+  PoolPosition,
+  poolPosition,
+  PoolState,
+  quotePrices,
+} from "./poolanalytics";
 import {
   BandwidthExtension,
   GraphExtension,
@@ -116,7 +153,73 @@ import {
   setupLiquidityExtension,
   setupRankExtension,
   setupResourcesExtension,
+  TrustedHeader,
 } from "./queries/index";
+import { quoteSwap, SwapQuote } from "./swapquote";
+import { findSwapRoutes, SwapRoute } from "./swaproutes";
+import {
+  BandwidthParams,
+  bandwidthParamsFromProto,
+  BatchDepositMsg,
+  batchDepositMsgFromProto,
+  BatchMsgState,
+  BatchSwapMsg,
+  batchSwapMsgFromProto,
+  BatchWithdrawMsg,
+  batchWithdrawMsgFromProto,
+  decCoinsFromProto,
+  decimalFromDecProto,
+  Delegation,
+  delegationFromProto,
+  DelegationTotalRewards,
+  delegationTotalRewardsFromProto,
+  Deposit,
+  depositFromProto,
+  DistributionParams,
+  distributionParamsFromProto,
+  GovParams,
+  govParamsFromProto,
+  GraphStats,
+  graphStatsFromProto,
+  GridParams,
+  gridParamsFromProto,
+  HistoricalInfo,
+  historicalInfoFromProto,
+  LiquidityParams,
+  liquidityParamsFromProto,
+  NeuronBandwidth,
+  neuronBandwidthFromProto,
+  ParticleRanksPage,
+  particleRanksPageFromProto,
+  Pool,
+  PoolBatch,
+  poolBatchFromProto,
+  poolFromProto,
+  Proposal,
+  proposalFromProto,
+  RankParams,
+  rankParamsFromProto,
+  Redelegation,
+  redelegationFromProto,
+  ResourcesParams,
+  resourcesParamsFromProto,
+  Route,
+  routeFromProto,
+  StakingParams,
+  stakingParamsFromProto,
+  StakingPool,
+  stakingPoolFromProto,
+  TallyResult,
+  tallyResultFromProto,
+  UnbondingDelegation,
+  unbondingDelegationFromProto,
+  Validator,
+  validatorFromProto,
+  ValidatorSlash,
+  validatorSlashFromProto,
+  Vote,
+  voteFromProto,
+} from "./types";
 export { Code, CodeDetails, Contract, ContractCodeHistoryEntry, JsonObject };
 
 export interface PrivateCyberClient {
@@ -139,6 +242,52 @@ export interface PrivateCyberClient {
     | undefined;
 }
 
+export interface PageIteratorOptions {
+  /** Number of entries requested per page, defaults to 10 */
+  readonly perPage?: number;
+  /** Maximum number of entries to yield, defaults to all entries reported by the chain */
+  readonly limit?: number;
+  /** Number of pages requested in parallel, defaults to 1 */
+  readonly concurrency?: number;
+}
+
+export interface BatchOrderTrackingOptions {
+  /** Give up if the order is not executed within this time, defaults to 60 seconds */
+  readonly timeoutMs?: number;
+  /** Time between checks for new blocks, defaults to 3 seconds */
+  readonly pollIntervalMs?: number;
+}
+
+export interface BroadcastTxResponse extends DeliverTxResponse {
+  /** Events emitted while executing the transaction. Empty if it was rejected before inclusion. */
+  readonly events: readonly Event[];
+}
+
+export interface Snapshot<T> {
+  readonly height: number;
+  readonly result: T;
+}
+
+/**
+ * Wraps the Tendermint client so that ABCI queries without an explicit height
+ * are answered from the state at the given height. All other calls are passed through.
+ */
+function withQueryHeight(tmClient: Tendermint34Client, height: number): Tendermint34Client {
+  const pinned: Tendermint34Client = Object.create(tmClient);
+  pinned.abciQuery = async (params) => tmClient.abciQuery({ ...params, height: params.height ?? height });
+  return pinned;
+}
+
+/** Resolves to null instead of rejecting if the chain reports that the queried entry does not exist */
+async function nullIfNotFound<T>(query: Promise<T>): Promise<T | null> {
+  try {
+    return await query;
+  } catch (error) {
+    if (/rpc error: code = NotFound/i.test(String(error))) return null;
+    throw error;
+  }
+}
+
 export declare type BondStatusString = Exclude<keyof typeof BondStatus, "BOND_STATUS_UNSPECIFIED">;
 
 export class CyberClient {
@@ -241,6 +390,30 @@ export class CyberClient {
     return this.queryClient;
   }
 
+  /**
+   * Returns a client sharing this client's connection whose queries read the state at the given height
+   * instead of the latest one. Block, transaction and status calls are not affected.
+   *
+   * Nodes only keep the state of the heights their pruning settings allow,
+   * queries for older heights fail.
+   */
+  public atHeight(height: number): CyberClient {
+    return new CyberClient(withQueryHeight(this.forceGetTmClient(), new Uint53(height).toNumber()));
+  }
+
+  /**
+   * Runs the given queries against the state of a single height, so that results of different modules
+   * are consistent with each other. Uses the latest height if none is given.
+   */
+  public async snapshot<T>(
+    read: (client: CyberClient, height: number) => Promise<T>,
+    height?: number,
+  ): Promise<Snapshot<T>> {
+    const snapshotHeight = height ?? (await this.getHeight());
+    const result = await read(this.atHeight(snapshotHeight), snapshotHeight);
+    return { height: snapshotHeight, result: result };
+  }
+
   public async getChainId(): Promise<string> {
     if (!this.chainId) {
       const response = await this.forceGetTmClient().status();
@@ -358,17 +531,58 @@ export class CyberClient {
     if (this.tmClient) this.tmClient.disconnect();
   }
 
-  public async broadcastTx(tx: Uint8Array): Promise<DeliverTxResponse> {
+  /**
+   * Broadcasts the transaction and waits until it is included in a block, polling every
+   * `pollIntervalMs`. Throws a TimeoutError carrying the transaction hash if it is not
+   * found within `timeoutMs`.
+   *
+   * A transaction rejected by CheckTx is never included, its response is returned right away
+   * with height 0 and a non-zero code.
+   */
+  public async broadcastTx(
+    tx: Uint8Array,
+    timeoutMs = 60_000,
+    pollIntervalMs = 3_000,
+  ): Promise<BroadcastTxResponse> {
     const broadcasted = await this.forceGetTmClient().broadcastTxSync({ tx });
     const transactionId = toHex(broadcasted.hash).toUpperCase();
-    return {
-      code: broadcasted.code,
-      height: 0,
-      rawLog: broadcasted.log,
-      transactionHash: transactionId,
-      gasUsed: broadcasted.gasUsed,
-      gasWanted: broadcasted.gasWanted,
-    };
+    if (broadcasted.code) {
+      return {
+        code: broadcasted.code,
+        height: 0,
+        rawLog: broadcasted.log,
+        transactionHash: transactionId,
+        gasUsed: broadcasted.gasUsed,
+        gasWanted: broadcasted.gasWanted,
+        events: [],
+      };
+    }
+
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      await sleep(Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+      const { txs } = await this.forceGetTmClient().txSearch({ query: `tx.hash='${transactionId}'` });
+      if (txs.length) {
+        const { height, result } = txs[0];
+        return {
+          code: result.code,
+          height: height,
+          rawLog: result.log || "",
+          transactionHash: transactionId,
+          gasUsed: result.gasUsed,
+          gasWanted: result.gasWanted,
+          events: result.events,
+        };
+      }
+      if (Date.now() >= deadline) {
+        throw new TimeoutError(
+          `Transaction with ID ${transactionId} was submitted but was not yet found on the chain. You might want to check later. There was a wait of ${
+            timeoutMs / 1000
+          } seconds.`,
+          transactionId,
+        );
+      }
+    }
   }
 
   // Graph module
@@ -378,6 +592,11 @@ export class CyberClient {
     return QueryGraphStatsResponse.toJSON(response);
   }
 
+  public async getGraphStats(): Promise<GraphStats> {
+    const response = await this.forceGetQueryClient().graph.graphStats();
+    return graphStatsFromProto(response);
+  }
+
   // Rank module
 
   public async search(particle: string, page?: number, perPage?: number): Promise<JsonObject> {
@@ -410,6 +629,114 @@ export class CyberClient {
     return QueryLinkExistResponse.toJSON(response);
   }
 
+  /**
+   * Iterates over all particles linked from the given particle, page by page,
+   * until the total reported by the chain (or `options.limit`) is reached.
+   */
+  public searchAll(particle: string, options: PageIteratorOptions = {}): AsyncGenerator<RankedParticle> {
+    return this.rankedParticles(
+      (page, perPage) => this.forceGetQueryClient().rank.search(particle, page, perPage),
+      options,
+    );
+  }
+
+  /**
+   * Iterates over all particles linking to the given particle, page by page,
+   * until the total reported by the chain (or `options.limit`) is reached.
+   */
+  public backlinksAll(particle: string, options: PageIteratorOptions = {}): AsyncGenerator<RankedParticle> {
+    return this.rankedParticles(
+      (page, perPage) => this.forceGetQueryClient().rank.backlinks(particle, page, perPage),
+      options,
+    );
+  }
+
+  /**
+   * Iterates over the top ranked particles of the graph, page by page,
+   * until the total reported by the chain (or `options.limit`) is reached.
+   */
+  public topAll(options: PageIteratorOptions = {}): AsyncGenerator<RankedParticle> {
+    return this.rankedParticles(
+      (page, perPage) => this.forceGetQueryClient().rank.top(page, perPage),
+      options,
+    );
+  }
+
+  public async top(page?: number, perPage?: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().rank.top(page, perPage);
+    return QuerySearchResponse.toJSON(response);
+  }
+
+  public async negentropy(): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().rank.negentropy();
+    return QueryNegentropyResponse.toJSON(response);
+  }
+
+  public async particleNegentropy(particle: string): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().rank.particleNegentropy(particle);
+    return QueryNegentropyParticleResponse.toJSON(response);
+  }
+
+  public async rankParams(): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().rank.params();
+    return QueryParamsResponseRank.toJSON(response);
+  }
+
+  public async getSearchResults(
+    particle: string,
+    page?: number,
+    perPage?: number,
+  ): Promise<ParticleRanksPage> {
+    const response = await this.forceGetQueryClient().rank.search(particle, page, perPage);
+    return particleRanksPageFromProto(response);
+  }
+
+  public async getBacklinks(particle: string, page?: number, perPage?: number): Promise<ParticleRanksPage> {
+    const response = await this.forceGetQueryClient().rank.backlinks(particle, page, perPage);
+    return particleRanksPageFromProto(response);
+  }
+
+  public async getTop(page?: number, perPage?: number): Promise<ParticleRanksPage> {
+    const response = await this.forceGetQueryClient().rank.top(page, perPage);
+    return particleRanksPageFromProto(response);
+  }
+
+  public async getRank(particle: string): Promise<string> {
+    const { rank } = await this.forceGetQueryClient().rank.rank(particle);
+    return rank.toString();
+  }
+
+  public async getKarma(neuron: string): Promise<string> {
+    const { karma } = await this.forceGetQueryClient().rank.karma(neuron);
+    return karma.toString();
+  }
+
+  public async getNegentropy(): Promise<string> {
+    const { negentropy } = await this.forceGetQueryClient().rank.negentropy();
+    return negentropy.toString();
+  }
+
+  public async getParticleNegentropy(particle: string): Promise<string> {
+    const { entropy } = await this.forceGetQueryClient().rank.particleNegentropy(particle);
+    return entropy.toString();
+  }
+
+  public async getRankParams(): Promise<RankParams> {
+    const { params } = await this.forceGetQueryClient().rank.params();
+    assert(params, "rank params missing");
+    return rankParamsFromProto(params);
+  }
+
+  public async hasLink(from: string, to: string, neuron: string): Promise<boolean> {
+    const { exist } = await this.forceGetQueryClient().rank.isLinkExist(from, to, neuron);
+    return exist;
+  }
+
+  public async hasAnyLink(from: string, to: string): Promise<boolean> {
+    const { exist } = await this.forceGetQueryClient().rank.isAnyLinkExist(from, to);
+    return exist;
+  }
+
   // Bandwidth module
 
   public async load(): Promise<JsonObject> {
@@ -427,6 +754,105 @@ export class CyberClient {
     return QueryNeuronBandwidthResponse.toJSON(response);
   }
 
+  public async totalBandwidth(): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().bandwidth.totalBandwidth();
+    return QueryTotalBandwidthResponse.toJSON(response);
+  }
+
+  public async bandwidthParams(): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().bandwidth.params();
+    return QueryParamsResponseBandwidth.toJSON(response);
+  }
+
+  /** Returns the current network load as a decimal string */
+  public async getLoad(): Promise<string> {
+    const { load } = await this.forceGetQueryClient().bandwidth.load();
+    return decimalFromDecProto(load);
+  }
+
+  /** Returns the current bandwidth price as a decimal string */
+  public async getPrice(): Promise<string> {
+    const { price } = await this.forceGetQueryClient().bandwidth.price();
+    return decimalFromDecProto(price);
+  }
+
+  public async getTotalBandwidth(): Promise<string> {
+    const { totalBandwidth } = await this.forceGetQueryClient().bandwidth.totalBandwidth();
+    return totalBandwidth.toString();
+  }
+
+  public async getBandwidthParams(): Promise<BandwidthParams> {
+    const { params } = await this.forceGetQueryClient().bandwidth.params();
+    assert(params, "bandwidth params missing");
+    return bandwidthParamsFromProto(params);
+  }
+
+  public async getNeuronBandwidth(neuron: string): Promise<NeuronBandwidth | null> {
+    const { neuronBandwidth } = await this.forceGetQueryClient().bandwidth.account(neuron);
+    return neuronBandwidth ? neuronBandwidthFromProto(neuronBandwidth) : null;
+  }
+
+  /**
+   * Like `getNeuronBandwidth`, but reads the value from the module store together with a Merkle proof
+   * and verifies it against the app hash of `header`, at the state after the block before it.
+   *
+   * The node is not trusted, the header is: take it from a light client that verified its commit.
+   */
+  public async getVerifiedNeuronBandwidth(
+    neuron: string,
+    header: TrustedHeader,
+  ): Promise<NeuronBandwidth | null> {
+    const neuronBandwidth = await this.forceGetQueryClient().bandwidth.verified.account(neuron, header);
+    return neuronBandwidth ? neuronBandwidthFromProto(neuronBandwidth) : null;
+  }
+
+  /**
+   * Starts sampling load and price on every new block (or every `options.interval` blocks)
+   * until `stop` is called on the returned monitor.
+   *
+   * Throws right away if the client is connected over HTTP, since block subscriptions need a websocket
+   * connection, and stops when the subscription fails (see `BandwidthMonitorOptions.onError`).
+   */
+  public monitorBandwidth(options: BandwidthMonitorOptions): BandwidthMonitor {
+    return new BandwidthMonitor(
+      this.forceGetTmClient(),
+      async () => {
+        const [load, price] = await Promise.all([this.getLoad(), this.getPrice()]);
+        return { load: load, price: price };
+      },
+      options,
+    );
+  }
+
+  /** Returns the bandwidth the neuron will have at the given height if it spends none until then */
+  public async getNeuronBandwidthAt(neuron: string, height: number): Promise<number> {
+    const [neuronBandwidth, params] = await Promise.all([
+      this.getNeuronBandwidth(neuron),
+      this.getBandwidthParams(),
+    ]);
+    return neuronBandwidth ? remainedBandwidthAt(neuronBandwidth, params, height) : 0;
+  }
+
+  /**
+   * Projects when the neuron can afford a transaction with the given number of cyberlinks
+   * at the current price.
+   */
+  public async getCyberlinksForecast(neuron: string, linksCount: number): Promise<CyberlinksForecast> {
+    const [neuronBandwidth, params, price, height] = await Promise.all([
+      this.getNeuronBandwidth(neuron),
+      this.getBandwidthParams(),
+      this.getPrice(),
+      this.getHeight(),
+    ]);
+    return forecastCyberlinks(
+      neuronBandwidth ?? { neuron: neuron, remainedValue: "0", maxValue: "0", lastUpdatedBlock: height },
+      params,
+      height,
+      linksCount,
+      price,
+    );
+  }
+
   // Staking module
 
   public async delegation(delegatorAddress: string, validatorAddress: string): Promise<JsonObject> {
@@ -542,6 +968,134 @@ export class CyberClient {
     return QueryValidatorUnbondingDelegationsResponse.toJSON(response);
   }
 
+  public async getDelegation(delegatorAddress: string, validatorAddress: string): Promise<Delegation | null> {
+    const response = await nullIfNotFound(
+      this.forceGetQueryClient().staking.delegation(delegatorAddress, validatorAddress),
+    );
+    return response?.delegationResponse ? delegationFromProto(response.delegationResponse) : null;
+  }
+
+  public async getDelegatorDelegations(delegatorAddress: string): Promise<readonly Delegation[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { delegationResponses, pagination } =
+        await this.forceGetQueryClient().staking.delegatorDelegations(delegatorAddress, paginationKey);
+      return { items: delegationResponses.map(delegationFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getDelegatorUnbondingDelegations(
+    delegatorAddress: string,
+  ): Promise<readonly UnbondingDelegation[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { unbondingResponses, pagination } =
+        await this.forceGetQueryClient().staking.delegatorUnbondingDelegations(
+          delegatorAddress,
+          paginationKey,
+        );
+      return { items: unbondingResponses.map(unbondingDelegationFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getDelegatorValidator(
+    delegatorAddress: string,
+    validatorAddress: string,
+  ): Promise<Validator | null> {
+    const response = await nullIfNotFound(
+      this.forceGetQueryClient().staking.delegatorValidator(delegatorAddress, validatorAddress),
+    );
+    return response?.validator ? validatorFromProto(response.validator) : null;
+  }
+
+  public async getDelegatorValidators(delegatorAddress: string): Promise<readonly Validator[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { validators, pagination } = await this.forceGetQueryClient().staking.delegatorValidators(
+        delegatorAddress,
+        paginationKey,
+      );
+      return { items: validators.map(validatorFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getHistoricalInfo(height: number): Promise<HistoricalInfo | null> {
+    const response = await nullIfNotFound(this.forceGetQueryClient().staking.historicalInfo(height));
+    return response?.hist ? historicalInfoFromProto(response.hist) : null;
+  }
+
+  public async getStakingParams(): Promise<StakingParams> {
+    const { params } = await this.forceGetQueryClient().staking.params();
+    assert(params, "staking params missing");
+    return stakingParamsFromProto(params);
+  }
+
+  public async getStakingPool(): Promise<StakingPool> {
+    const { pool } = await this.forceGetQueryClient().staking.pool();
+    assert(pool, "staking pool missing");
+    return stakingPoolFromProto(pool);
+  }
+
+  public async getRedelegations(
+    delegatorAddress: string,
+    sourceValidatorAddress: string,
+    destinationValidatorAddress: string,
+  ): Promise<readonly Redelegation[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { redelegationResponses, pagination } = await this.forceGetQueryClient().staking.redelegations(
+        delegatorAddress,
+        sourceValidatorAddress,
+        destinationValidatorAddress,
+        paginationKey,
+      );
+      return { items: redelegationResponses.map(redelegationFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getUnbondingDelegation(
+    delegatorAddress: string,
+    validatorAddress: string,
+  ): Promise<UnbondingDelegation | null> {
+    const response = await nullIfNotFound(
+      this.forceGetQueryClient().staking.unbondingDelegation(delegatorAddress, validatorAddress),
+    );
+    return response?.unbond ? unbondingDelegationFromProto(response.unbond) : null;
+  }
+
+  public async getValidator(validatorAddress: string): Promise<Validator | null> {
+    const response = await nullIfNotFound(this.forceGetQueryClient().staking.validator(validatorAddress));
+    return response?.validator ? validatorFromProto(response.validator) : null;
+  }
+
+  /** Fetches all pages, which takes many requests for validators with many delegators */
+  public async getValidatorDelegations(validatorAddress: string): Promise<readonly Delegation[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { delegationResponses, pagination } =
+        await this.forceGetQueryClient().staking.validatorDelegations(validatorAddress, paginationKey);
+      return { items: delegationResponses.map(delegationFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getValidators(status: BondStatusString): Promise<readonly Validator[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { validators, pagination } = await this.forceGetQueryClient().staking.validators(
+        status,
+        paginationKey,
+      );
+      return { items: validators.map(validatorFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getValidatorUnbondingDelegations(
+    validatorAddress: string,
+  ): Promise<readonly UnbondingDelegation[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { unbondingResponses, pagination } =
+        await this.forceGetQueryClient().staking.validatorUnbondingDelegations(
+          validatorAddress,
+          paginationKey,
+        );
+      return { items: unbondingResponses.map(unbondingDelegationFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
   // Distribution module
 
   public async communityPool(): Promise<JsonObject> {
@@ -604,6 +1158,81 @@ export class CyberClient {
     return QueryValidatorSlashesResponse.toJSON(response);
   }
 
+  /** Returns the community pool with decimal string amounts */
+  public async getCommunityPool(): Promise<readonly Coin[]> {
+    const { pool } = await this.forceGetQueryClient().distribution.communityPool();
+    return decCoinsFromProto(pool);
+  }
+
+  /** Returns the rewards of the delegation with decimal string amounts */
+  public async getDelegationRewards(
+    delegatorAddress: string,
+    validatorAddress: string,
+  ): Promise<readonly Coin[]> {
+    const { rewards } = await this.forceGetQueryClient().distribution.delegationRewards(
+      delegatorAddress,
+      validatorAddress,
+    );
+    return decCoinsFromProto(rewards);
+  }
+
+  public async getDelegationTotalRewards(delegatorAddress: string): Promise<DelegationTotalRewards> {
+    const response = await this.forceGetQueryClient().distribution.delegationTotalRewards(delegatorAddress);
+    return delegationTotalRewardsFromProto(response);
+  }
+
+  public async getDelegatorValidatorsDistribution(delegatorAddress: string): Promise<readonly string[]> {
+    const { validators } = await this.forceGetQueryClient().distribution.delegatorValidators(
+      delegatorAddress,
+    );
+    return validators;
+  }
+
+  public async getDelegatorWithdrawAddress(delegatorAddress: string): Promise<string> {
+    const { withdrawAddress } = await this.forceGetQueryClient().distribution.delegatorWithdrawAddress(
+      delegatorAddress,
+    );
+    return withdrawAddress;
+  }
+
+  public async getDistributionParams(): Promise<DistributionParams> {
+    const { params } = await this.forceGetQueryClient().distribution.params();
+    assert(params, "distribution params missing");
+    return distributionParamsFromProto(params);
+  }
+
+  /** Returns the validator's accumulated commission with decimal string amounts */
+  public async getValidatorCommission(validatorAddress: string): Promise<readonly Coin[]> {
+    const { commission } = await this.forceGetQueryClient().distribution.validatorCommission(
+      validatorAddress,
+    );
+    return decCoinsFromProto(commission?.commission ?? []);
+  }
+
+  /** Returns the validator's outstanding rewards with decimal string amounts */
+  public async getValidatorOutstandingRewards(validatorAddress: string): Promise<readonly Coin[]> {
+    const { rewards } = await this.forceGetQueryClient().distribution.validatorOutstandingRewards(
+      validatorAddress,
+    );
+    return decCoinsFromProto(rewards?.rewards ?? []);
+  }
+
+  public async getValidatorSlashes(
+    validatorAddress: string,
+    startingHeight: number,
+    endingHeight: number,
+  ): Promise<readonly ValidatorSlash[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { slashes, pagination } = await this.forceGetQueryClient().distribution.validatorSlashes(
+        validatorAddress,
+        startingHeight,
+        endingHeight,
+        paginationKey,
+      );
+      return { items: slashes.map(validatorSlashFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
   // Grid module
 
   public async sourceRoutes(source: string): Promise<JsonObject> {
@@ -631,8 +1260,8 @@ export class CyberClient {
     return QueryRouteResponse.toJSON(response);
   }
 
-  public async routes(): Promise<JsonObject> {
-    const response = await this.forceGetQueryClient().grid.routes();
+  public async routes(page?: number, perPage?: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().grid.routes(page, perPage);
     return QueryRoutesResponse.toJSON(response);
   }
 
@@ -641,6 +1270,88 @@ export class CyberClient {
     return QueryParamsResponseEnergy.toJSON(response);
   }
 
+  public async getSourceRoutes(source: string): Promise<readonly Route[]> {
+    const { routes } = await this.forceGetQueryClient().grid.sourceRoutes(source);
+    return routes.map(routeFromProto);
+  }
+
+  public async getDestinationRoutes(destination: string): Promise<readonly Route[]> {
+    const { routes } = await this.forceGetQueryClient().grid.destinationRoutes(destination);
+    return routes.map(routeFromProto);
+  }
+
+  public async getDestinationRoutedEnergy(destination: string): Promise<readonly Coin[]> {
+    const { value } = await this.forceGetQueryClient().grid.destinationRoutedEnergy(destination);
+    return value.map(({ denom, amount }) => ({ denom: denom, amount: amount }));
+  }
+
+  public async getSourceRoutedEnergy(source: string): Promise<readonly Coin[]> {
+    const { value } = await this.forceGetQueryClient().grid.sourceRoutedEnergy(source);
+    return value.map(({ denom, amount }) => ({ denom: denom, amount: amount }));
+  }
+
+  public async getRoute(source: string, destination: string): Promise<Route | null> {
+    const response = await nullIfNotFound(this.forceGetQueryClient().grid.route(source, destination));
+    return response?.route ? routeFromProto(response.route) : null;
+  }
+
+  /**
+   * Like `getRoute`, but reads the value from the module store together with a Merkle proof
+   * and verifies it against the app hash of `header` (see `getVerifiedNeuronBandwidth`).
+   */
+  public async getVerifiedRoute(
+    source: string,
+    destination: string,
+    header: TrustedHeader,
+  ): Promise<Route | null> {
+    const route = await this.forceGetQueryClient().grid.verified.route(source, destination, header);
+    return route ? routeFromProto(route) : null;
+  }
+
+  public async getRoutes(page?: number, perPage?: number): Promise<readonly Route[]> {
+    const { routes } = await this.forceGetQueryClient().grid.routes(page, perPage);
+    return routes.map(routeFromProto);
+  }
+
+  /**
+   * Iterates over all routes of the network, page by page,
+   * until the total reported by the chain (or `options.limit`) is reached.
+   */
+  public routesAll(options: PageIteratorOptions = {}): AsyncGenerator<Route> {
+    return this.pageItems(async (page, perPage) => {
+      const { routes, pagination } = await this.forceGetQueryClient().grid.routes(page, perPage);
+      return {
+        items: routes.map(routeFromProto),
+        total: pagination ? pagination.total.toNumber() : routes.length,
+      };
+    }, options);
+  }
+
+  /** Collects all routes of the network into a graph for analysis */
+  public async getEnergyGraph(options: PageIteratorOptions = {}): Promise<EnergyGraph> {
+    const routes: Route[] = [];
+    for await (const route of this.routesAll(options)) routes.push(route);
+    return buildEnergyGraph(routes);
+  }
+
+  /**
+   * Returns the neuron's incoming, outgoing and net energy from the routed energy totals
+   * of the chain, without fetching the whole route table.
+   */
+  public async getEnergyBalance(neuron: string): Promise<EnergyBalance> {
+    const [incomingCoins, outgoingCoins] = await Promise.all([
+      this.getDestinationRoutedEnergy(neuron),
+      this.getSourceRoutedEnergy(neuron),
+    ]);
+    return energyBalance(neuron, incomingCoins, outgoingCoins);
+  }
+
+  public async getGridParams(): Promise<GridParams> {
+    const { params } = await this.forceGetQueryClient().grid.params();
+    assert(params, "grid params missing");
+    return gridParamsFromProto(params);
+  }
+
   // Resources module
 
   public async resourcesParams(): Promise<JsonObject> {
@@ -648,6 +1359,91 @@ export class CyberClient {
     return QueryParamsResponseResources.toJSON(response);
   }
 
+  public async getResourcesParams(): Promise<ResourcesParams> {
+    const { params } = await this.forceGetQueryClient().resources.params();
+    assert(params, "resources params missing");
+    return resourcesParamsFromProto(params);
+  }
+
+  /** Returns the resource an investmint of the given amount and length (in seconds) would mint */
+  public async previewInvestmint(amount: Coin, resource: string, length: number): Promise<Coin> {
+    const response = await this.forceGetQueryClient().resources.investmint(amount, resource, length);
+    assert(response.amount, "investmint amount missing");
+    return response.amount;
+  }
+
+  /**
+   * Returns the neuron's investmints that are still locked at the time of the latest block,
+   * and how many more it can start before reaching the chain's slot limit.
+   */
+  public async getInvestmintSlots(neuron: string): Promise<InvestmintSlots> {
+    const [account, { maxSlots }, { header }] = await Promise.all([
+      this.forceGetQueryClient().auth.account(neuron),
+      this.getResourcesParams(),
+      this.getBlock(),
+    ]);
+    const active = account ? investmintSlotsFromAccount(account, new Date(header.time)) : [];
+    return { maxSlots: maxSlots, active: active, free: Math.max(maxSlots - active.length, 0) };
+  }
+
+  /**
+   * Fetches the resources params and height once and returns a preview that computes investmint
+   * outcomes locally, e.g. for recomputing them on every input change. Chains other than bostrom
+   * need to pass their halving schedule.
+   */
+  public async getInvestmintCalculator(
+    schedule: InvestmintHalvingSchedule = bostromHalvingSchedule,
+  ): Promise<InvestmintPreview> {
+    const [params, height] = await Promise.all([this.getResourcesParams(), this.getHeight()]);
+    return investmintCalculator(params, height, schedule);
+  }
+
+  /**
+   * Finds the smallest amount of `denom` that mints at least `target` of the resource
+   * when locked for `length` seconds, or null if `maxAmount` is not enough.
+   */
+  public async planInvestmintAmount(
+    resource: string,
+    target: string,
+    denom: string,
+    length: number,
+    maxAmount: string,
+  ): Promise<InvestmintPlan | null> {
+    const { minInvestmintPeriod } = await this.getResourcesParams();
+    if (length < minInvestmintPeriod) {
+      throw new Error(`Investmint length ${length} is below the minimum of ${minInvestmintPeriod}`);
+    }
+    return planInvestmintAmount(
+      async (...args) => this.previewInvestmint(...args),
+      resource,
+      target,
+      denom,
+      length,
+      maxAmount,
+    );
+  }
+
+  /**
+   * Finds the shortest length in seconds, not below the chain's minimum investmint period,
+   * for which locking `amount` mints at least `target` of the resource, or null if `maxLength` is not enough.
+   */
+  public async planInvestmintLength(
+    resource: string,
+    target: string,
+    amount: Coin,
+    maxLength: number,
+  ): Promise<InvestmintPlan | null> {
+    const { minInvestmintPeriod } = await this.getResourcesParams();
+    return planInvestmintLength(
+      async (...args) => this.previewInvestmint(...args),
+      resource,
+      target,
+      amount,
+      minInvestmintPeriod,
+      Math.max(maxLength, minInvestmintPeriod),
+    );
+  }
+
   // Liquidity module
 
   public async liquidityParams(): Promise<JsonObject> {
@@ -660,11 +1456,306 @@ export class CyberClient {
     return QueryLiquidityPoolResponse.toJSON(response);
   }
 
-  public async pools(): Promise<JsonObject> {
-    const response = await this.forceGetQueryClient().liquidity.pools();
+  public async pools(page?: number, perPage?: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().liquidity.pools(page, perPage);
     return QueryLiquidityPoolsResponse.toJSON(response);
   }
 
+  public async poolBatch(poolId: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().liquidity.batch(poolId);
+    return QueryLiquidityPoolBatchResponse.toJSON(response);
+  }
+
+  public async poolBatchSwapMsgs(poolId: number, page?: number, perPage?: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().liquidity.batchSwapMsgs(poolId, page, perPage);
+    return QueryPoolBatchSwapMsgsResponse.toJSON(response);
+  }
+
+  public async poolBatchSwapMsg(poolId: number, msgIndex: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().liquidity.batchSwapMsg(poolId, msgIndex);
+    return QueryPoolBatchSwapMsgResponse.toJSON(response);
+  }
+
+  public async poolBatchDepositMsgs(poolId: number, page?: number, perPage?: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().liquidity.batchDepositMsgs(poolId, page, perPage);
+    return QueryPoolBatchDepositMsgsResponse.toJSON(response);
+  }
+
+  public async poolBatchDepositMsg(poolId: number, msgIndex: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().liquidity.batchDepositMsg(poolId, msgIndex);
+    return QueryPoolBatchDepositMsgResponse.toJSON(response);
+  }
+
+  public async poolBatchWithdrawMsgs(poolId: number, page?: number, perPage?: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().liquidity.batchWithdrawMsgs(poolId, page, perPage);
+    return QueryPoolBatchWithdrawMsgsResponse.toJSON(response);
+  }
+
+  public async poolBatchWithdrawMsg(poolId: number, msgIndex: number): Promise<JsonObject> {
+    const response = await this.forceGetQueryClient().liquidity.batchWithdrawMsg(poolId, msgIndex);
+    return QueryPoolBatchWithdrawMsgResponse.toJSON(response);
+  }
+
+  public async getLiquidityParams(): Promise<LiquidityParams> {
+    const { params } = await this.forceGetQueryClient().liquidity.params();
+    assert(params, "liquidity params missing");
+    return liquidityParamsFromProto(params);
+  }
+
+  public async getPool(id: number): Promise<Pool | null> {
+    const response = await nullIfNotFound(this.forceGetQueryClient().liquidity.pool(id));
+    return response?.pool ? poolFromProto(response.pool) : null;
+  }
+
+  public async getPools(page?: number, perPage?: number): Promise<readonly Pool[]> {
+    const { pools } = await this.forceGetQueryClient().liquidity.pools(page, perPage);
+    return pools.map(poolFromProto);
+  }
+
+  /** Iterates over all liquidity pools, page by page */
+  public poolsAll(options: PageIteratorOptions = {}): AsyncGenerator<Pool> {
+    return this.pageItems(async (page, perPage) => {
+      const { pools, pagination } = await this.forceGetQueryClient().liquidity.pools(page, perPage);
+      return {
+        items: pools.map(poolFromProto),
+        total: pagination ? pagination.total.toNumber() : pools.length,
+      };
+    }, options);
+  }
+
+  /** Returns the pool of the two reserve coin denoms in any order, or null if there is none */
+  public async findPool(denomA: string, denomB: string): Promise<Pool | null> {
+    const [first, second] = [denomA, denomB].sort();
+    for await (const pool of this.poolsAll({ perPage: 100 })) {
+      if (pool.reserveCoinDenoms[0] === first && pool.reserveCoinDenoms[1] === second) return pool;
+    }
+    return null;
+  }
+
+  /**
+   * Quotes a swap of `offerCoin` into `demandCoinDenom` from the current reserves of their pool.
+   * See `quoteSwap` for how the quote is calculated.
+   */
+  public async getSwapQuote(offerCoin: Coin, demandCoinDenom: string, slippage?: number): Promise<SwapQuote> {
+    const pool = await this.findPool(offerCoin.denom, demandCoinDenom);
+    if (!pool) throw new Error(`No liquidity pool for ${offerCoin.denom} and ${demandCoinDenom}`);
+    const [reserves, params] = await Promise.all([
+      this.getAllBalances(pool.reserveAccountAddress),
+      this.getLiquidityParams(),
+    ]);
+    return quoteSwap(pool, reserves, params, offerCoin, demandCoinDenom, slippage);
+  }
+
+  /**
+   * Finds the routes of up to `maxHops` swaps from `offerCoin` to `demandCoinDenom` across all pools,
+   * best expected output first. See `findSwapRoutes` for how routes are quoted.
+   */
+  public async getSwapRoutes(
+    offerCoin: Coin,
+    demandCoinDenom: string,
+    maxHops?: number,
+    slippage?: number,
+  ): Promise<readonly SwapRoute[]> {
+    const pools: Pool[] = [];
+    for await (const pool of this.poolsAll({ perPage: 100 })) pools.push(pool);
+    const [poolReserves, params] = await Promise.all([
+      Promise.all(
+        pools.map(async (pool) => ({
+          pool: pool,
+          reserves: await this.getAllBalances(pool.reserveAccountAddress),
+        })),
+      ),
+      this.getLiquidityParams(),
+    ]);
+    return findSwapRoutes(poolReserves, params, offerCoin, demandCoinDenom, maxHops, slippage);
+  }
+
+  /** Returns the pool with its reserves and pool coin supply, or null if there is no such pool */
+  public async getPoolState(poolId: number): Promise<PoolState | null> {
+    const pool = await this.getPool(poolId);
+    return pool ? this.poolState(pool) : null;
+  }
+
+  /**
+   * Returns reserves, spot price and total value of every pool.
+   * Values are given in `quoteDenom` where all reserve coins of a pool are paired with it.
+   */
+  public async getPoolAnalytics(quoteDenom?: string): Promise<readonly PoolAnalytics[]> {
+    const states = await this.poolStates();
+    const prices = quoteDenom === undefined ? undefined : quotePrices(states, quoteDenom);
+    return states.map((state) => poolAnalytics(state, prices));
+  }
+
+  /**
+   * Values every pool coin the neuron holds: its share of the pool, the underlying reserve coins
+   * and what a withdrawal would return. Values are given in `quoteDenom` if possible.
+   */
+  public async getPoolPositions(neuron: string, quoteDenom?: string): Promise<readonly PoolPosition[]> {
+    const [balances, states, params] = await Promise.all([
+      this.getAllBalances(neuron),
+      this.poolStates(),
+      this.getLiquidityParams(),
+    ]);
+    const prices = quoteDenom === undefined ? undefined : quotePrices(states, quoteDenom);
+    const statesByPoolCoin = new Map(states.map((state) => [state.pool.poolCoinDenom, state]));
+    const positions: PoolPosition[] = [];
+    for (const { denom, amount } of balances) {
+      const state = statesByPoolCoin.get(denom);
+      if (state) positions.push(poolPosition(state, amount, params, prices));
+    }
+    return positions;
+  }
+
+  public async getPoolBatch(poolId: number): Promise<PoolBatch | null> {
+    const response = await nullIfNotFound(this.forceGetQueryClient().liquidity.batch(poolId));
+    return response?.batch ? poolBatchFromProto(response.batch) : null;
+  }
+
+  public async getPoolBatchSwapMsgs(
+    poolId: number,
+    page?: number,
+    perPage?: number,
+  ): Promise<readonly BatchSwapMsg[]> {
+    const { swaps } = await this.forceGetQueryClient().liquidity.batchSwapMsgs(poolId, page, perPage);
+    return swaps.map(batchSwapMsgFromProto);
+  }
+
+  public async getPoolBatchSwapMsg(poolId: number, msgIndex: number): Promise<BatchSwapMsg | null> {
+    const response = await nullIfNotFound(
+      this.forceGetQueryClient().liquidity.batchSwapMsg(poolId, msgIndex),
+    );
+    return response?.swap ? batchSwapMsgFromProto(response.swap) : null;
+  }
+
+  public async getPoolBatchDepositMsgs(
+    poolId: number,
+    page?: number,
+    perPage?: number,
+  ): Promise<readonly BatchDepositMsg[]> {
+    const { deposits } = await this.forceGetQueryClient().liquidity.batchDepositMsgs(poolId, page, perPage);
+    return deposits.map(batchDepositMsgFromProto);
+  }
+
+  public async getPoolBatchDepositMsg(poolId: number, msgIndex: number): Promise<BatchDepositMsg | null> {
+    const response = await nullIfNotFound(
+      this.forceGetQueryClient().liquidity.batchDepositMsg(poolId, msgIndex),
+    );
+    return response?.deposit ? batchDepositMsgFromProto(response.deposit) : null;
+  }
+
+  public async getPoolBatchWithdrawMsgs(
+    poolId: number,
+    page?: number,
+    perPage?: number,
+  ): Promise<readonly BatchWithdrawMsg[]> {
+    const { withdraws } = await this.forceGetQueryClient().liquidity.batchWithdrawMsgs(poolId, page, perPage);
+    return withdraws.map(batchWithdrawMsgFromProto);
+  }
+
+  public async getPoolBatchWithdrawMsg(poolId: number, msgIndex: number): Promise<BatchWithdrawMsg | null> {
+    const response = await nullIfNotFound(
+      this.forceGetQueryClient().liquidity.batchWithdrawMsg(poolId, msgIndex),
+    );
+    return response?.withdraw ? batchWithdrawMsgFromProto(response.withdraw) : null;
+  }
+
+  /** Iterates over all swap messages of the pool's batches, page by page */
+  public poolBatchSwapMsgsAll(
+    poolId: number,
+    options: PageIteratorOptions = {},
+  ): AsyncGenerator<BatchSwapMsg> {
+    return this.pageItems(async (page, perPage) => {
+      const { swaps, pagination } = await this.forceGetQueryClient().liquidity.batchSwapMsgs(
+        poolId,
+        page,
+        perPage,
+      );
+      return {
+        items: swaps.map(batchSwapMsgFromProto),
+        total: pagination ? pagination.total.toNumber() : swaps.length,
+      };
+    }, options);
+  }
+
+  /** Iterates over all deposit messages of the pool's batches, page by page */
+  public poolBatchDepositMsgsAll(
+    poolId: number,
+    options: PageIteratorOptions = {},
+  ): AsyncGenerator<BatchDepositMsg> {
+    return this.pageItems(async (page, perPage) => {
+      const { deposits, pagination } = await this.forceGetQueryClient().liquidity.batchDepositMsgs(
+        poolId,
+        page,
+        perPage,
+      );
+      return {
+        items: deposits.map(batchDepositMsgFromProto),
+        total: pagination ? pagination.total.toNumber() : deposits.length,
+      };
+    }, options);
+  }
+
+  /** Iterates over all withdraw messages of the pool's batches, page by page */
+  public poolBatchWithdrawMsgsAll(
+    poolId: number,
+    options: PageIteratorOptions = {},
+  ): AsyncGenerator<BatchWithdrawMsg> {
+    return this.pageItems(async (page, perPage) => {
+      const { withdraws, pagination } = await this.forceGetQueryClient().liquidity.batchWithdrawMsgs(
+        poolId,
+        page,
+        perPage,
+      );
+      return {
+        items: withdraws.map(batchWithdrawMsgFromProto),
+        total: pagination ? pagination.total.toNumber() : withdraws.length,
+      };
+    }, options);
+  }
+
+  /**
+   * Waits until the batch executes the swap order of the given transaction and returns its final state,
+   * including whether it succeeded, the exchanged and the remaining offer coin.
+   * Follows the first swap order if the transaction has several, see `batchOrdersFromEvents`.
+   */
+  public async trackSwap(
+    result: BroadcastTxResponse,
+    options: BatchOrderTrackingOptions = {},
+  ): Promise<BatchSwapMsg> {
+    return this.trackBatchOrder(
+      "swap",
+      result,
+      (client, { poolId, msgIndex }) => client.getPoolBatchSwapMsg(poolId, msgIndex),
+      options,
+    );
+  }
+
+  /** Waits until the batch executes the deposit order of the given transaction and returns its final state */
+  public async trackDeposit(
+    result: BroadcastTxResponse,
+    options: BatchOrderTrackingOptions = {},
+  ): Promise<BatchDepositMsg> {
+    return this.trackBatchOrder(
+      "deposit",
+      result,
+      (client, { poolId, msgIndex }) => client.getPoolBatchDepositMsg(poolId, msgIndex),
+      options,
+    );
+  }
+
+  /** Waits until the batch executes the withdraw order of the given transaction and returns its final state */
+  public async trackWithdraw(
+    result: BroadcastTxResponse,
+    options: BatchOrderTrackingOptions = {},
+  ): Promise<BatchWithdrawMsg> {
+    return this.trackBatchOrder(
+      "withdraw",
+      result,
+      (client, { poolId, msgIndex }) => client.getPoolBatchWithdrawMsg(poolId, msgIndex),
+      options,
+    );
+  }
+
   // Gov module
 
   public async govParams(parametersType: GovParamsType): Promise<JsonObject> {
@@ -717,6 +1808,71 @@ export class CyberClient {
     return QueryVoteResponse.toJSON(response);
   }
 
+  public async getGovParams(): Promise<GovParams> {
+    const [{ depositParams }, { votingParams }, { tallyParams }] = await Promise.all([
+      this.forceGetQueryClient().gov.params("deposit"),
+      this.forceGetQueryClient().gov.params("voting"),
+      this.forceGetQueryClient().gov.params("tallying"),
+    ]);
+    assert(depositParams && votingParams && tallyParams, "gov params missing");
+    return govParamsFromProto(depositParams, votingParams, tallyParams);
+  }
+
+  public async getProposals(
+    proposalStatus: ProposalStatus,
+    depositorAddress: string,
+    voterAddress: string,
+  ): Promise<readonly Proposal[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { proposals, pagination } = await this.forceGetQueryClient().gov.proposals(
+        proposalStatus,
+        depositorAddress,
+        voterAddress,
+        paginationKey,
+      );
+      return { items: proposals.map(proposalFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getProposal(proposalId: GovProposalId): Promise<Proposal | null> {
+    const response = await nullIfNotFound(this.forceGetQueryClient().gov.proposal(proposalId));
+    return response?.proposal ? proposalFromProto(response.proposal) : null;
+  }
+
+  public async getDeposits(proposalId: GovProposalId): Promise<readonly Deposit[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { deposits, pagination } = await this.forceGetQueryClient().gov.deposits(
+        proposalId,
+        paginationKey,
+      );
+      return { items: deposits.map(depositFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getDeposit(proposalId: GovProposalId, depositorAddress: string): Promise<Deposit | null> {
+    const response = await nullIfNotFound(
+      this.forceGetQueryClient().gov.deposit(proposalId, depositorAddress),
+    );
+    return response?.deposit ? depositFromProto(response.deposit) : null;
+  }
+
+  public async getTally(proposalId: GovProposalId): Promise<TallyResult | null> {
+    const response = await nullIfNotFound(this.forceGetQueryClient().gov.tally(proposalId));
+    return response?.tally ? tallyResultFromProto(response.tally) : null;
+  }
+
+  public async getVotes(proposalId: GovProposalId): Promise<readonly Vote[]> {
+    return this.keyPagedItems(async (paginationKey) => {
+      const { votes, pagination } = await this.forceGetQueryClient().gov.votes(proposalId, paginationKey);
+      return { items: votes.map(voteFromProto), nextKey: pagination?.nextKey };
+    });
+  }
+
+  public async getVote(proposalId: GovProposalId, voterAddress: string): Promise<Vote | null> {
+    const response = await nullIfNotFound(this.forceGetQueryClient().gov.vote(proposalId, voterAddress));
+    return response?.vote ? voteFromProto(response.vote) : null;
+  }
+
   // Wasm module
 
   public async getCodes(): Promise<readonly Code[]> {
@@ -852,6 +2008,124 @@ export class CyberClient {
     }
   }
 
+  private rankedParticles(
+    query: (page: number, perPage: number) => Promise<QuerySearchResponse>,
+    options: PageIteratorOptions,
+  ): AsyncGenerator<RankedParticle> {
+    return this.pageItems(async (page, perPage) => {
+      const { result, pagination } = await query(page, perPage);
+      return { items: result, total: pagination ? pagination.total : result.length };
+    }, options);
+  }
+
+  /** Yields the items of consecutive pages, using the total reported with the first page */
+  private async *pageItems<T>(
+    query: (
+      page: number,
+      perPage: number,
+    ) => Promise<{ readonly items: readonly T[]; readonly total: number }>,
+    { perPage = 10, limit, concurrency = 1 }: PageIteratorOptions,
+  ): AsyncGenerator<T> {
+    assert(perPage > 0, "perPage must be positive");
+    assert(concurrency > 0, "concurrency must be positive");
+
+    const first = await query(0, perPage);
+    const max = limit !== undefined ? Math.min(limit, first.total) : first.total;
+    const pages = Math.ceil(max / perPage);
+
+    let yielded = 0;
+    let responses = [first];
+    let nextPage = 1;
+    while (yielded < max) {
+      for (const { items } of responses) {
+        // The chain may return less than it reported as total, e.g. after a rank recalculation
+        if (items.length === 0) return;
+        for (const item of items) {
+          if (yielded >= max) return;
+          yield item;
+          yielded++;
+        }
+      }
+      if (nextPage >= pages) return;
+      const batch = [];
+      for (let page = nextPage; page < Math.min(nextPage + concurrency, pages); page++) {
+        batch.push(page);
+      }
+      nextPage += batch.length;
+      responses = await Promise.all(batch.map((page) => query(page, perPage)));
+    }
+  }
+
+  private async poolState(pool: Pool): Promise<PoolState> {
+    const [reserves, poolCoinSupply] = await Promise.all([
+      this.getAllBalances(pool.reserveAccountAddress),
+      this.forceGetQueryClient().bank.supplyOf(pool.poolCoinDenom),
+    ]);
+    return { pool: pool, reserves: reserves, poolCoinSupply: poolCoinSupply };
+  }
+
+  private async poolStates(): Promise<PoolState[]> {
+    const pools: Pool[] = [];
+    for await (const pool of this.poolsAll({ perPage: 100 })) pools.push(pool);
+    return Promise.all(pools.map(async (pool) => this.poolState(pool)));
+  }
+
+  /**
+   * Executed orders stay in the store only until the next block starts, so the order is looked up
+   * at every height since its inclusion instead of at the latest height.
+   */
+  private async trackBatchOrder<T extends BatchMsgState>(
+    kind: BatchOrderKind,
+    result: BroadcastTxResponse,
+    lookup: (client: CyberClient, order: BatchOrder) => Promise<T | null>,
+    { timeoutMs = 60_000, pollIntervalMs = 3_000 }: BatchOrderTrackingOptions,
+  ): Promise<T> {
+    if (result.code) throw new Error(`Transaction ${result.transactionHash} failed with code ${result.code}`);
+    const order = batchOrdersFromEvents(result.events).find((candidate) => candidate.kind === kind);
+    if (!order) throw new Error(`Transaction ${result.transactionHash} contains no ${kind} order`);
+
+    const deadline = Date.now() + timeoutMs;
+    let height = result.height;
+    for (;;) {
+      if (height <= (await this.getHeight())) {
+        const state = await lookup(this.atHeight(height), order);
+        if (!state) {
+          throw new Error(
+            `The ${kind} order ${order.msgIndex} of pool ${order.poolId} is missing at height ${height}`,
+          );
+        }
+        if (state.executed) return state;
+        height++;
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new TimeoutError(
+          `The ${kind} order of transaction ${result.transactionHash} was not executed within ${
+            timeoutMs / 1000
+          } seconds.`,
+          result.transactionHash,
+        );
+      }
+      await sleep(Math.min(pollIntervalMs, Math.max(deadline - Date.now(), 0)));
+    }
+  }
+
+  /** Collects the items of all pages of a query that is paginated by key */
+  private async keyPagedItems<T>(
+    query: (
+      paginationKey?: Uint8Array,
+    ) => Promise<{ readonly items: readonly T[]; readonly nextKey?: Uint8Array }>,
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let paginationKey: Uint8Array | undefined;
+    do {
+      const page = await query(paginationKey);
+      items.push(...page.items);
+      paginationKey = page.nextKey;
+    } while (paginationKey?.length);
+    return items;
+  }
+
   private async txsQuery(query: string): Promise<readonly IndexedTx[]> {
     const results = await this.forceGetTmClient().txSearchAll({ query: query });
     return results.txs.map((tx) => {
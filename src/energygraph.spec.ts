@@ -0,0 +1,101 @@
+import {
+  buildEnergyGraph,
+  energyBalance,
+  energyBalances,
+  findEnergyCycles,
+  findEnergyHubs,
+} from "./energygraph";
+import { Route } from "./types";
+
+function route(source: string, destination: string, ...amounts: ReadonlyArray<[string, string]>): Route {
+  return {
+    source: source,
+    destination: destination,
+    name: `${source} to ${destination}`,
+    value: amounts.map(([denom, amount]) => ({ denom: denom, amount: amount })),
+  };
+}
+
+describe("energyBalances", () => {
+  it("sums incoming, outgoing and net energy per denom", () => {
+    const graph = buildEnergyGraph([
+      route("alice", "bob", ["millivolt", "300"], ["milliampere", "5"]),
+      route("carol", "bob", ["millivolt", "200"]),
+      route("bob", "alice", ["millivolt", "700"]),
+    ]);
+    expect(energyBalances(graph)).toEqual([
+      {
+        neuron: "alice",
+        incoming: { millivolt: "700" },
+        outgoing: { millivolt: "300", milliampere: "5" },
+        net: { millivolt: "400", milliampere: "-5" },
+      },
+      {
+        neuron: "bob",
+        incoming: { millivolt: "500", milliampere: "5" },
+        outgoing: { millivolt: "700" },
+        net: { millivolt: "-200", milliampere: "5" },
+      },
+      {
+        neuron: "carol",
+        incoming: {},
+        outgoing: { millivolt: "200" },
+        net: { millivolt: "-200" },
+      },
+    ]);
+  });
+
+  it("keeps amounts beyond 2^53 exact", () => {
+    const graph = buildEnergyGraph([
+      route("alice", "bob", ["millivolt", "9007199254740993"]),
+      route("carol", "bob", ["millivolt", "1"]),
+    ]);
+    expect(energyBalances(graph)[1].incoming).toEqual({ millivolt: "9007199254740994" });
+    expect(findEnergyHubs(graph, 1)[0].incoming).toEqual({ millivolt: "9007199254740994" });
+    expect(
+      energyBalance(
+        "bob",
+        [{ denom: "millivolt", amount: "1" }],
+        [{ denom: "millivolt", amount: "9007199254740993" }],
+      ).net,
+    ).toEqual({ millivolt: "-9007199254740992" });
+  });
+});
+
+describe("findEnergyCycles", () => {
+  it("lists every cycle once, starting at its smallest neuron", () => {
+    const graph = buildEnergyGraph([
+      route("alice", "bob"),
+      route("bob", "carol"),
+      route("carol", "alice"),
+      route("carol", "bob"),
+      route("carol", "dave"),
+    ]);
+    expect(findEnergyCycles(graph)).toEqual(
+      jasmine.arrayWithExactContents([
+        ["alice", "bob", "carol"],
+        ["bob", "carol"],
+      ]),
+    );
+  });
+
+  it("finds no cycles in an acyclic graph", () => {
+    const graph = buildEnergyGraph([route("alice", "bob"), route("alice", "carol"), route("bob", "carol")]);
+    expect(findEnergyCycles(graph)).toEqual([]);
+  });
+
+  it("stops after 1000 cycles by default", () => {
+    // Every pair of 7 neurons routes both ways, which makes 2365 cycles
+    const neurons = ["a", "b", "c", "d", "e", "f", "g"];
+    const routes: Route[] = [];
+    for (const source of neurons) {
+      for (const destination of neurons) {
+        if (destination !== source) routes.push(route(source, destination));
+      }
+    }
+    const graph = buildEnergyGraph(routes);
+    expect(findEnergyCycles(graph).length).toEqual(1000);
+    expect(findEnergyCycles(graph, 3000).length).toEqual(2365);
+    expect(findEnergyCycles(graph, 10).length).toEqual(10);
+  });
+});
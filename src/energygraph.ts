@@ -0,0 +1,197 @@
+import { Decimal } from "@cosmjs/math";
+import { Coin } from "@cosmjs/stargate";
+
+import { Route } from "./types";
+
+/** Integer amounts per denom as decimal strings, which are negative for net amounts routed away */
+export type EnergyAmounts = Readonly<Record<string, string>>;
+
+export interface EnergyGraph {
+  /** All sources and destinations of the routes, sorted */
+  readonly neurons: readonly string[];
+  readonly routes: readonly Route[];
+}
+
+export interface EnergyBalance {
+  readonly neuron: string;
+  /** Energy routed to the neuron */
+  readonly incoming: EnergyAmounts;
+  /** Energy the neuron routes to others */
+  readonly outgoing: EnergyAmounts;
+  /** Incoming minus outgoing energy, negative if the neuron routes away more than it receives */
+  readonly net: EnergyAmounts;
+}
+
+export interface EnergyHub {
+  readonly neuron: string;
+  /** Number of routes ending at the neuron */
+  readonly incomingRoutes: number;
+  /** Number of routes starting at the neuron */
+  readonly outgoingRoutes: number;
+  readonly incoming: EnergyAmounts;
+}
+
+export interface EnergyGraphJson {
+  readonly nodes: ReadonlyArray<{ readonly id: string }>;
+  readonly edges: ReadonlyArray<{
+    readonly source: string;
+    readonly destination: string;
+    readonly name: string;
+    readonly value: readonly Coin[];
+  }>;
+}
+
+function sumAmounts(coins: readonly Coin[]): Record<string, string> {
+  const sums: Record<string, Decimal> = {};
+  for (const { denom, amount } of coins) {
+    sums[denom] = (sums[denom] ?? Decimal.zero(0)).plus(Decimal.fromAtomics(amount, 0));
+  }
+  const amounts: Record<string, string> = {};
+  for (const [denom, sum] of Object.entries(sums)) amounts[denom] = sum.atomics;
+  return amounts;
+}
+
+/** Subtracts two non-negative integers given as decimal strings, which may give a negative result */
+function subtractAmounts(minuend: string, subtrahend: string): string {
+  const a = Decimal.fromAtomics(minuend, 0);
+  const b = Decimal.fromAtomics(subtrahend, 0);
+  return a.isGreaterThanOrEqual(b) ? a.minus(b).atomics : `-${b.minus(a).atomics}`;
+}
+
+function outgoingNeighbours(graph: EnergyGraph): Map<string, string[]> {
+  const neighbours = new Map<string, string[]>(graph.neurons.map((neuron) => [neuron, []]));
+  for (const { source, destination } of graph.routes) {
+    neighbours.get(source)?.push(destination);
+  }
+  return neighbours;
+}
+
+function escapeDot(value: string): string {
+  return value.replace(/(["\\])/g, "\\$1");
+}
+
+export function buildEnergyGraph(routes: readonly Route[]): EnergyGraph {
+  const neurons = new Set<string>();
+  for (const { source, destination } of routes) {
+    neurons.add(source);
+    neurons.add(destination);
+  }
+  return { neurons: [...neurons].sort(), routes: routes };
+}
+
+/** Returns the balance of a neuron that receives the `incoming` and routes away the `outgoing` coins */
+export function energyBalance(
+  neuron: string,
+  incoming: readonly Coin[],
+  outgoing: readonly Coin[],
+): EnergyBalance {
+  const incomingAmounts = sumAmounts(incoming);
+  const outgoingAmounts = sumAmounts(outgoing);
+  const net: Record<string, string> = {};
+  for (const denom of new Set([...Object.keys(incomingAmounts), ...Object.keys(outgoingAmounts)])) {
+    net[denom] = subtractAmounts(incomingAmounts[denom] ?? "0", outgoingAmounts[denom] ?? "0");
+  }
+  return { neuron: neuron, incoming: incomingAmounts, outgoing: outgoingAmounts, net: net };
+}
+
+/** Returns the incoming, outgoing and net energy of every neuron of the graph */
+export function energyBalances(graph: EnergyGraph): EnergyBalance[] {
+  const coins = new Map<string, { incoming: Coin[]; outgoing: Coin[] }>(
+    graph.neurons.map((neuron) => [neuron, { incoming: [], outgoing: [] }]),
+  );
+  for (const { source, destination, value } of graph.routes) {
+    coins.get(source)?.outgoing.push(...value);
+    coins.get(destination)?.incoming.push(...value);
+  }
+  return [...coins.entries()].map(([neuron, { incoming, outgoing }]) =>
+    energyBalance(neuron, incoming, outgoing),
+  );
+}
+
+/**
+ * Finds the cycles of the graph, i.e. neurons routing energy back to themselves through others.
+ * Every cycle is listed once, starting at its smallest neuron. Stops after `limit` cycles.
+ */
+export function findEnergyCycles(graph: EnergyGraph, limit = 1000): string[][] {
+  const neighbours = outgoingNeighbours(graph);
+  const cycles: string[][] = [];
+  for (const start of graph.neurons) {
+    // Only visit neurons greater than the start so that each cycle is found from its smallest neuron only
+    const path = [start];
+    const onPath = new Set(path);
+    const stack = [(neighbours.get(start) ?? []).filter((next) => next >= start)];
+    while (stack.length) {
+      const candidates = stack[stack.length - 1];
+      const next = candidates.pop();
+      if (next === undefined) {
+        stack.pop();
+        onPath.delete(path.pop() as string);
+        continue;
+      }
+      if (next === start) {
+        cycles.push([...path]);
+        if (cycles.length >= limit) return cycles;
+      } else if (!onPath.has(next)) {
+        path.push(next);
+        onPath.add(next);
+        stack.push((neighbours.get(next) ?? []).filter((candidate) => candidate >= start));
+      }
+    }
+  }
+  return cycles;
+}
+
+/** Returns the `count` neurons with the most routes, most connected first */
+export function findEnergyHubs(graph: EnergyGraph, count = 10): EnergyHub[] {
+  const hubs = new Map<string, { incomingRoutes: number; outgoingRoutes: number; incoming: Coin[] }>(
+    graph.neurons.map((neuron) => [neuron, { incomingRoutes: 0, outgoingRoutes: 0, incoming: [] }]),
+  );
+  for (const { source, destination, value } of graph.routes) {
+    const sourceHub = hubs.get(source);
+    const destinationHub = hubs.get(destination);
+    if (sourceHub) sourceHub.outgoingRoutes++;
+    if (destinationHub) {
+      destinationHub.incomingRoutes++;
+      destinationHub.incoming.push(...value);
+    }
+  }
+  return [...hubs.entries()]
+    .map(([neuron, { incomingRoutes, outgoingRoutes, incoming }]) => ({
+      neuron: neuron,
+      incomingRoutes: incomingRoutes,
+      outgoingRoutes: outgoingRoutes,
+      incoming: sumAmounts(incoming),
+    }))
+    .sort(
+      (a, b) =>
+        b.incomingRoutes + b.outgoingRoutes - (a.incomingRoutes + a.outgoingRoutes) ||
+        b.incomingRoutes - a.incomingRoutes,
+    )
+    .slice(0, count);
+}
+
+export function energyGraphToJson(graph: EnergyGraph): EnergyGraphJson {
+  return {
+    nodes: graph.neurons.map((neuron) => ({ id: neuron })),
+    edges: graph.routes.map(({ source, destination, name, value }) => ({
+      source: source,
+      destination: destination,
+      name: name,
+      value: value,
+    })),
+  };
+}
+
+/** Exports the graph in the Graphviz DOT language, labelling each route with its name and value */
+export function energyGraphToDot(graph: EnergyGraph): string {
+  const lines = graph.neurons.map((neuron) => `  "${escapeDot(neuron)}";`);
+  for (const { source, destination, name, value } of graph.routes) {
+    const amounts = value.map(({ denom, amount }) => `${amount}${denom}`).join(" ");
+    const label = [name, amounts]
+      .filter((part) => part)
+      .map(escapeDot)
+      .join("\\n");
+    lines.push(`  "${escapeDot(source)}" -> "${escapeDot(destination)}" [label="${label}"];`);
+  }
+  return ["digraph energy {", ...lines, "}"].join("\n");
+}
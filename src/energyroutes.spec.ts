@@ -0,0 +1,61 @@
+import { diffEnergyRoutes, isEmptyEnergyRoutesDiff } from "./energyroutes";
+import { Route } from "./types";
+
+const source = "bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm";
+
+function current(destination: string, name: string, volts: string, amperes: string): Route {
+  return {
+    source: source,
+    destination: destination,
+    name: name,
+    value: [
+      { denom: "milliampere", amount: amperes },
+      { denom: "millivolt", amount: volts },
+    ],
+  };
+}
+
+describe("diffEnergyRoutes", () => {
+  it("creates, renames, edits and deletes routes to reach the desired ones", () => {
+    const diff = diffEnergyRoutes(
+      [
+        current("alice", "alice", "100", "0"),
+        current("bob", "bob", "50", "5"),
+        current("carol", "carol", "1", "1"),
+      ],
+      [
+        { destination: "alice", name: "alice", value: [{ denom: "millivolt", amount: "100" }] },
+        { destination: "bob", name: "bobby", value: [{ denom: "millivolt", amount: "70" }] },
+        { destination: "dave", name: "dave", value: [{ denom: "milliampere", amount: "3" }] },
+      ],
+      8,
+    );
+    expect(diff).toEqual({
+      create: [{ destination: "dave", name: "dave", value: [{ denom: "milliampere", amount: "3" }] }],
+      rename: [{ destination: "bob", name: "bobby" }],
+      edit: [
+        { destination: "bob", value: { denom: "milliampere", amount: "0" } },
+        { destination: "bob", value: { denom: "millivolt", amount: "70" } },
+        { destination: "dave", value: { denom: "milliampere", amount: "3" } },
+      ],
+      delete: ["carol"],
+    });
+  });
+
+  it("returns an empty diff if the routes are as desired", () => {
+    const diff = diffEnergyRoutes(
+      [current("alice", "alice", "100", "0")],
+      [{ destination: "alice", name: "alice", value: [{ denom: "millivolt", amount: "100" }] }],
+      8,
+    );
+    expect(isEmptyEnergyRoutesDiff(diff)).toBe(true);
+  });
+
+  it("rejects duplicate destinations and more routes than allowed", () => {
+    const route = { destination: "alice", name: "alice", value: [] };
+    expect(() => diffEnergyRoutes([], [route, route], 8)).toThrowError(/more than once/);
+    expect(() =>
+      diffEnergyRoutes([], [route, { destination: "bob", name: "bob", value: [] }], 1),
+    ).toThrowError(/exceed the maximum of 1/);
+  });
+});
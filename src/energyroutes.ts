@@ -0,0 +1,97 @@
+import { Coin } from "@cosmjs/stargate";
+
+import { Route } from "./types";
+
+export interface DesiredEnergyRoute {
+  readonly destination: string;
+  readonly name: string;
+  /** Amounts of each resource to route. Resources not listed are routed with zero. */
+  readonly value: readonly Coin[];
+}
+
+export interface EnergyRouteEdit {
+  readonly destination: string;
+  readonly value: Coin;
+}
+
+export interface EnergyRouteRename {
+  readonly destination: string;
+  readonly name: string;
+}
+
+export interface EnergyRoutesDiff {
+  /** Routes to create, followed by edits setting their value */
+  readonly create: readonly DesiredEnergyRoute[];
+  readonly rename: readonly EnergyRouteRename[];
+  readonly edit: readonly EnergyRouteEdit[];
+  /** Destinations of routes to delete */
+  readonly delete: readonly string[];
+}
+
+function nonZeroAmounts(coins: readonly Coin[]): Map<string, string> {
+  return new Map(
+    coins.filter(({ amount }) => !/^0*$/.test(amount)).map(({ denom, amount }) => [denom, amount]),
+  );
+}
+
+/** Returns the edits that turn the routed value `current` into `desired` */
+function valueEdits(
+  destination: string,
+  current: readonly Coin[],
+  desired: readonly Coin[],
+): EnergyRouteEdit[] {
+  const currentAmounts = nonZeroAmounts(current);
+  const desiredAmounts = nonZeroAmounts(desired);
+  const denoms = [...new Set([...currentAmounts.keys(), ...desiredAmounts.keys()])].sort();
+  return denoms
+    .filter((denom) => currentAmounts.get(denom) !== desiredAmounts.get(denom))
+    .map((denom) => ({
+      destination: destination,
+      value: { denom: denom, amount: desiredAmounts.get(denom) ?? "0" },
+    }));
+}
+
+/**
+ * Computes the minimal changes that turn the current routes of a source into the desired ones.
+ * Throws if the desired routes contain a destination twice or exceed `maxRoutes`.
+ */
+export function diffEnergyRoutes(
+  current: readonly Route[],
+  desired: readonly DesiredEnergyRoute[],
+  maxRoutes: number,
+): EnergyRoutesDiff {
+  const destinations = new Set(desired.map(({ destination }) => destination));
+  if (destinations.size !== desired.length) {
+    throw new Error("Desired energy routes contain a destination more than once");
+  }
+  if (desired.length > maxRoutes) {
+    throw new Error(`${desired.length} energy routes exceed the maximum of ${maxRoutes} routes per source`);
+  }
+
+  const currentByDestination = new Map(current.map((route) => [route.destination, route]));
+  const create: DesiredEnergyRoute[] = [];
+  const rename: EnergyRouteRename[] = [];
+  const edit: EnergyRouteEdit[] = [];
+  for (const route of desired) {
+    const existing = currentByDestination.get(route.destination);
+    if (!existing) {
+      create.push(route);
+      edit.push(...valueEdits(route.destination, [], route.value));
+      continue;
+    }
+    if (existing.name !== route.name) rename.push({ destination: route.destination, name: route.name });
+    edit.push(...valueEdits(route.destination, existing.value, route.value));
+  }
+  return {
+    create: create,
+    rename: rename,
+    edit: edit,
+    delete: current
+      .map(({ destination }) => destination)
+      .filter((destination) => !destinations.has(destination)),
+  };
+}
+
+export function isEmptyEnergyRoutesDiff(diff: EnergyRoutesDiff): boolean {
+  return !diff.create.length && !diff.rename.length && !diff.edit.length && !diff.delete.length;
+}
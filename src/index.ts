@@ -1,2 +1,142 @@
-export { CyberClient } from "./cyberclient";
-export { SigningCyberClient, SigningCyberClientOptions } from "./signingcyberclient";
+export {
+  BatchOrderTrackingOptions,
+  BroadcastTxResponse,
+  CyberClient,
+  PageIteratorOptions,
+  Snapshot,
+} from "./cyberclient";
+export {
+  createDefaultAminoConverters,
+  CyberlinksChunkResult,
+  CyberlinksOptions,
+  CyberlinksResult,
+  defaultCyberRegistryTypes,
+  Link,
+  SigningCyberClient,
+  SigningCyberClientOptions,
+  SwapOptions,
+  SwapResult,
+  SyncEnergyRoutesOptions,
+  SyncEnergyRoutesResult,
+} from "./signingcyberclient";
+export {
+  BandwidthParams,
+  BatchDepositMsg,
+  BatchMsgState,
+  BatchSwapMsg,
+  BatchWithdrawMsg,
+  decimalFromProto,
+  Delegation,
+  DelegationRewards,
+  DelegationTotalRewards,
+  Deposit,
+  DistributionParams,
+  GovParams,
+  GraphStats,
+  GridParams,
+  HistoricalInfo,
+  LiquidityParams,
+  NeuronBandwidth,
+  ParticleRank,
+  ParticleRanksPage,
+  Pool,
+  PoolBatch,
+  Proposal,
+  ProposalContent,
+  RankParams,
+  Redelegation,
+  RedelegationEntry,
+  ResourcesParams,
+  Route,
+  StakingParams,
+  StakingPool,
+  TallyResult,
+  UnbondingDelegation,
+  UnbondingDelegationEntry,
+  Validator,
+  ValidatorCommission,
+  ValidatorDescription,
+  ValidatorSlash,
+  Vote,
+  WeightedVote,
+} from "./types";
+export {
+  affordableCyberlinks,
+  bandwidthRecoveryHeight,
+  cyberlinkBaseCost,
+  cyberlinksBandwidthCost,
+  CyberlinksForecast,
+  forecastCyberlinks,
+  InsufficientBandwidthError,
+  remainedBandwidthAt,
+} from "./bandwidthmeter";
+export {
+  BandwidthAlert,
+  BandwidthMonitor,
+  BandwidthMonitorOptions,
+  BandwidthSample,
+  BandwidthSampler,
+} from "./bandwidthmonitor";
+export { BatchOrder, BatchOrderKind, batchOrdersFromEvents } from "./batchorders";
+export {
+  buildEnergyGraph,
+  EnergyAmounts,
+  EnergyBalance,
+  energyBalance,
+  energyBalances,
+  EnergyGraph,
+  EnergyGraphJson,
+  energyGraphToDot,
+  energyGraphToJson,
+  EnergyHub,
+  findEnergyCycles,
+  findEnergyHubs,
+} from "./energygraph";
+export {
+  DesiredEnergyRoute,
+  diffEnergyRoutes,
+  EnergyRouteEdit,
+  EnergyRouteRename,
+  EnergyRoutesDiff,
+  isEmptyEnergyRoutesDiff,
+} from "./energyroutes";
+export {
+  ampereDenom,
+  bostromHalvingSchedule,
+  calculateInvestmint,
+  investmintCalculator,
+  InvestmintHalvingSchedule,
+  InvestmintPlan,
+  InvestmintPreview,
+  InvestmintSlot,
+  InvestmintSlots,
+  investmintSlotsFromAccount,
+  planInvestmintAmount,
+  planInvestmintLength,
+  voltDenom,
+} from "./investmint";
+export {
+  isValidParticle,
+  normalizeParticle,
+  particleFromBytes,
+  particleFromText,
+  particleToCidV1,
+} from "./particle";
+export {
+  PoolAnalytics,
+  poolAnalytics,
+  PoolPosition,
+  poolPosition,
+  PoolState,
+  QuotePrices,
+  quotePrices,
+} from "./poolanalytics";
+export {
+  calculateOfferCoinFee,
+  instantSwapTypeId,
+  quoteSwap,
+  swapMessageFromQuote,
+  SwapQuote,
+} from "./swapquote";
+export { TrustedHeader } from "./queries";
+export { findSwapRoutes, PoolReserves, SwapRoute, swapRouteMessages } from "./swaproutes";
@@ -0,0 +1,107 @@
+import { Coin } from "@cosmjs/stargate";
+
+import { calculateInvestmint } from "./investmint";
+import { ResourcesParams } from "./types";
+
+// The expected amounts are worked out by hand from the go-cyber resources keeper, with its sdk.Dec
+// rounding, and have not been compared with QueryInvestmint responses of a node
+const params: ResourcesParams = {
+  maxSlots: 8,
+  halvingPeriodVoltBlocks: 9_000_000,
+  halvingPeriodAmpereBlocks: 9_000_000,
+  baseInvestmintPeriodVolt: 2_592_000,
+  baseInvestmintPeriodAmpere: 2_592_000,
+  minInvestmintPeriod: 86_400,
+  baseInvestmintAmountVolt: { denom: "hydrogen", amount: "1000000000" },
+  baseInvestmintAmountAmpere: { denom: "hydrogen", amount: "100000000" },
+};
+
+const hydrogen = (amount: string): Coin => ({ denom: "hydrogen", amount: amount });
+
+describe("calculateInvestmint", () => {
+  it("mints one resource per base amount and period before the halvings start", () => {
+    expect(calculateInvestmint(params, hydrogen("1000000000"), "millivolt", 2_592_000, 15_000_000)).toEqual({
+      denom: "millivolt",
+      amount: "1000",
+    });
+    expect(calculateInvestmint(params, hydrogen("100000000"), "milliampere", 2_592_000, 1)).toEqual({
+      denom: "milliampere",
+      amount: "1000",
+    });
+  });
+
+  it("counts halving periods from height 6,000,000 once height 15,000,000 is passed", () => {
+    const volt = (height: number): string =>
+      calculateInvestmint(params, hydrogen("1000000000"), "millivolt", 2_592_000, height).amount;
+    expect(volt(15_000_001)).toEqual("500");
+    expect(volt(23_999_999)).toEqual("500");
+    expect(volt(24_000_000)).toEqual("250");
+    expect(volt(32_999_999)).toEqual("250");
+    expect(volt(33_000_000)).toEqual("125");
+  });
+
+  it("does not halve below 0.01", () => {
+    const volt = (height: number): string =>
+      calculateInvestmint(params, hydrogen("1000000000"), "millivolt", 2_592_000, height).amount;
+    // 0.5^6 is 0.0156, 0.5^7 would be 0.0078
+    expect(volt(60_000_000)).toEqual("15");
+    expect(volt(69_000_000)).toEqual("10");
+    expect(volt(600_000_000)).toEqual("10");
+  });
+
+  it("follows the given halving schedule", () => {
+    const fromGenesis = { startHeight: 0, offsetHeight: 0 };
+    const volt = (height: number): string =>
+      calculateInvestmint(params, hydrogen("1000000000"), "millivolt", 2_592_000, height, fromGenesis).amount;
+    expect(volt(1)).toEqual("1000");
+    expect(volt(9_000_000)).toEqual("500");
+    expect(volt(15_000_000)).toEqual("500");
+    expect(volt(18_000_000)).toEqual("250");
+  });
+
+  it("uses the halving period of the resource", () => {
+    const ampereParams = { ...params, halvingPeriodAmpereBlocks: 3_000_000 };
+    expect(
+      calculateInvestmint(ampereParams, hydrogen("100000000"), "milliampere", 2_592_000, 15_000_001),
+    ).toEqual({
+      denom: "milliampere",
+      amount: "125",
+    });
+    expect(
+      calculateInvestmint(ampereParams, hydrogen("1000000000"), "millivolt", 2_592_000, 15_000_001),
+    ).toEqual({
+      denom: "millivolt",
+      amount: "500",
+    });
+  });
+
+  it("rounds like the chain", () => {
+    expect(
+      calculateInvestmint(params, hydrogen("1234567891"), "millivolt", 604_800, 14_000_000).amount,
+    ).toEqual("288");
+    expect(
+      calculateInvestmint(params, hydrogen("1234567891"), "millivolt", 604_800, 20_000_000).amount,
+    ).toEqual("144");
+    expect(
+      calculateInvestmint(params, hydrogen("777777777"), "milliampere", 3_888_000, 20_000_000).amount,
+    ).toEqual("5833");
+    expect(calculateInvestmint(params, hydrogen("3"), "millivolt", 86_400, 20_000_000).amount).toEqual("0");
+    // A third of a period is truncated to 0.333333333333333333, so three base amounts mint just below 1 volt
+    expect(
+      calculateInvestmint(params, hydrogen("3000000000"), "millivolt", 864_000, 15_000_000).amount,
+    ).toEqual("999");
+    // Halving 0.999999999999999999 is a tie at 18 decimals, which sdk.Dec rounds to the even 0.5
+    expect(
+      calculateInvestmint(params, hydrogen("3000000000"), "millivolt", 864_000, 15_000_001).amount,
+    ).toEqual("500");
+  });
+
+  it("rejects unknown resources and other denoms", () => {
+    expect(() => calculateInvestmint(params, hydrogen("1000"), "boot", 86_400, 1)).toThrowError(
+      /unknown resource/i,
+    );
+    expect(() =>
+      calculateInvestmint(params, { denom: "boot", amount: "1000" }, "millivolt", 86_400, 1),
+    ).toThrowError(/must be in hydrogen/i);
+  });
+});
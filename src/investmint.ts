@@ -0,0 +1,284 @@
+import { Decimal, Uint32, Uint53 } from "@cosmjs/math";
+import { Coin } from "@cosmjs/stargate";
+import { PeriodicVestingAccount } from "cosmjs-types/cosmos/vesting/v1beta1/vesting";
+import { Any } from "cosmjs-types/google/protobuf/any";
+
+import { ResourcesParams } from "./types";
+
+export const voltDenom = "millivolt";
+export const ampereDenom = "milliampere";
+
+/** Resources are minted in milli units */
+const mintedUnitsPerResource = 1000;
+/** The halving factor is applied with 4 decimal places */
+const halvingPrecision = 10000;
+/** The halving factor does not go below 0.01 */
+const minHalving = 100;
+/** Number of fractional digits of the sdk.Dec type */
+const decFractionalDigits = 18;
+
+/**
+ * Heights of the halving schedule, which are not part of the resources params.
+ * Up to `startHeight` the halving factor is 1, after it the halving periods are counted
+ * from `offsetHeight` instead of from genesis.
+ */
+export interface InvestmintHalvingSchedule {
+  readonly startHeight: number;
+  readonly offsetHeight: number;
+}
+
+/**
+ * The schedule of bostrom, hardcoded in CalculateInvestmint of the go-cyber resources keeper
+ * (x/resources/keeper/keeper.go) to postpone the halvings to height 15,000,000.
+ */
+export const bostromHalvingSchedule: InvestmintHalvingSchedule = {
+  startHeight: 15_000_000,
+  offsetHeight: 6_000_000,
+};
+
+/** Returns the resource an investmint of the given amount and length (in seconds) would mint */
+export type InvestmintPreview = (amount: Coin, resource: string, length: number) => Promise<Coin>;
+
+export interface InvestmintPlan {
+  readonly amount: Coin;
+  readonly resource: string;
+  /** Investmint length in seconds */
+  readonly length: number;
+  /** Resource the investmint mints */
+  readonly minted: Coin;
+}
+
+/** Divides a non-negative integer given as decimal string by a positive safe integer, rounding down */
+function divideInteger(dividend: string, divisor: number): string {
+  let quotient = "";
+  let remainder = 0;
+  for (const digit of dividend) {
+    const current = remainder * 10 + Number(digit);
+    quotient += Math.floor(current / divisor).toString();
+    remainder = current % divisor;
+  }
+  return quotient.replace(/^0+(?=\d)/, "");
+}
+
+/** Multiplies two non-negative integers given as decimal strings */
+function multiplyIntegers(a: string, b: string): string {
+  // Decimal only multiplies by integers of up to 64 bits, so b is taken in chunks of 9 digits
+  let product = Decimal.zero(0);
+  for (let end = b.length, shift = 0; end > 0; end -= 9, shift += 9) {
+    const chunk = new Uint32(Number(b.slice(Math.max(end - 9, 0), end)));
+    const partial = Decimal.fromAtomics(a, 0).multiply(chunk).atomics;
+    product = product.plus(Decimal.fromAtomics(partial + "0".repeat(shift), 0));
+  }
+  return product.atomics;
+}
+
+/** Multiplies two sdk.Dec values given as atomics, rounding half to even like sdk.Dec.Mul */
+function mulDec(a: string, b: string): string {
+  const product = multiplyIntegers(a, b).padStart(decFractionalDigits + 1, "0");
+  const quotient = Decimal.fromAtomics(product.slice(0, -decFractionalDigits), 0);
+  const remainder = product.slice(-decFractionalDigits);
+  const half = "5".padEnd(decFractionalDigits, "0");
+  const roundsUp =
+    remainder > half ||
+    (remainder === half && Number(product.slice(-decFractionalDigits - 1, -decFractionalDigits)) % 2 === 1);
+  return (roundsUp ? quotient.plus(Decimal.one(0)) : quotient).atomics;
+}
+
+function halvingFactor(
+  schedule: InvestmintHalvingSchedule,
+  halvingPeriodBlocks: number,
+  height: number,
+): number {
+  if (height <= schedule.startHeight || halvingPeriodBlocks <= 0) return halvingPrecision;
+  const halvings = Math.floor((height - schedule.offsetHeight) / halvingPeriodBlocks);
+  return Math.max(Math.floor(0.5 ** halvings * halvingPrecision), minHalving);
+}
+
+function mintedAmount(minted: Coin): number {
+  return Uint53.fromString(minted.amount || "0").toNumber();
+}
+
+/**
+ * Finds the smallest amount of `denom` that mints at least `target` of the resource
+ * when locked for `length` seconds, searching amounts up to `maxAmount`.
+ *
+ * Returns null if even `maxAmount` does not reach the target.
+ */
+export async function planInvestmintAmount(
+  preview: InvestmintPreview,
+  resource: string,
+  target: string,
+  denom: string,
+  length: number,
+  maxAmount: string,
+): Promise<InvestmintPlan | null> {
+  const targetAmount = Uint53.fromString(target).toNumber();
+  const coin = (amount: number): Coin => ({ denom: denom, amount: amount.toString() });
+  let high = Uint53.fromString(maxAmount).toNumber();
+  let minted = await preview(coin(high), resource, length);
+  if (mintedAmount(minted) < targetAmount) return null;
+
+  // The minted amount grows with the locked amount, so the smallest sufficient amount is in (low, high]
+  let low = 0;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    const middleMinted = await preview(coin(middle), resource, length);
+    if (mintedAmount(middleMinted) >= targetAmount) {
+      high = middle;
+      minted = middleMinted;
+    } else {
+      low = middle;
+    }
+  }
+  return { amount: coin(high), resource: resource, length: length, minted: minted };
+}
+
+/**
+ * Finds the shortest length in seconds, between `minLength` and `maxLength`, for which locking `amount`
+ * mints at least `target` of the resource.
+ *
+ * Returns null if even `maxLength` does not reach the target.
+ */
+export async function planInvestmintLength(
+  preview: InvestmintPreview,
+  resource: string,
+  target: string,
+  amount: Coin,
+  minLength: number,
+  maxLength: number,
+): Promise<InvestmintPlan | null> {
+  const targetAmount = Uint53.fromString(target).toNumber();
+  let high = new Uint53(maxLength).toNumber();
+  let minted = await preview(amount, resource, high);
+  if (mintedAmount(minted) < targetAmount) return null;
+
+  const minMinted = await preview(amount, resource, minLength);
+  if (mintedAmount(minMinted) >= targetAmount) {
+    return { amount: amount, resource: resource, length: minLength, minted: minMinted };
+  }
+  // The minted amount grows with the length, so the shortest sufficient length is in (low, high]
+  let low = minLength;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    const middleMinted = await preview(amount, resource, middle);
+    if (mintedAmount(middleMinted) >= targetAmount) {
+      high = middle;
+      minted = middleMinted;
+    } else {
+      low = middle;
+    }
+  }
+  return { amount: amount, resource: resource, length: high, minted: minted };
+}
+
+/**
+ * Computes locally what an investmint of `amount` for `length` seconds mints at the given height,
+ * following the go-cyber resources keeper step by step with sdk.Dec rounding:
+ *
+ *   amount / baseInvestmintAmount * (length / baseInvestmintPeriod) * halving * 1000
+ *
+ * Up to `schedule.startHeight` halving is 1. After it, halving is 0.5 for every full halving period
+ * since `schedule.offsetHeight`, rounded down to 4 decimals and at least 0.01.
+ */
+export function calculateInvestmint(
+  params: ResourcesParams,
+  amount: Coin,
+  resource: string,
+  length: number,
+  height: number,
+  schedule: InvestmintHalvingSchedule = bostromHalvingSchedule,
+): Coin {
+  let baseAmount: Coin | null;
+  let basePeriod: number;
+  let halvingPeriodBlocks: number;
+  switch (resource) {
+    case voltDenom:
+      baseAmount = params.baseInvestmintAmountVolt;
+      basePeriod = params.baseInvestmintPeriodVolt;
+      halvingPeriodBlocks = params.halvingPeriodVoltBlocks;
+      break;
+    case ampereDenom:
+      baseAmount = params.baseInvestmintAmountAmpere;
+      basePeriod = params.baseInvestmintPeriodAmpere;
+      halvingPeriodBlocks = params.halvingPeriodAmpereBlocks;
+      break;
+    default:
+      throw new Error(`Unknown resource "${resource}", expected ${voltDenom} or ${ampereDenom}`);
+  }
+  if (!baseAmount || baseAmount.amount === "0" || basePeriod <= 0) {
+    throw new Error(`Resources params do not define an investmint base for ${resource}`);
+  }
+  if (amount.denom !== baseAmount.denom) {
+    throw new Error(`Investmint amount must be in ${baseAmount.denom}, got ${amount.denom}`);
+  }
+
+  // Quotients of sdk.Dec values are truncated, products are rounded
+  const base = divideInteger(
+    Decimal.fromUserInput(amount.amount, decFractionalDigits).atomics,
+    Uint53.fromString(baseAmount.amount).toNumber(),
+  );
+  const cycles = divideInteger(
+    Decimal.fromUserInput(new Uint53(length).toString(), decFractionalDigits).atomics,
+    basePeriod,
+  );
+  const halving = Decimal.fromAtomics(
+    halvingFactor(schedule, halvingPeriodBlocks, height).toString(),
+    4,
+  ).toString();
+  const minted = Decimal.fromAtomics(
+    mulDec(mulDec(base, cycles), Decimal.fromUserInput(halving, decFractionalDigits).atomics),
+    decFractionalDigits,
+  )
+    .multiply(new Uint53(mintedUnitsPerResource))
+    .toString()
+    .split(".")[0];
+  return { denom: resource, amount: minted };
+}
+
+/** Returns an InvestmintPreview computing the outcome locally instead of querying the chain */
+export function investmintCalculator(
+  params: ResourcesParams,
+  height: number,
+  schedule: InvestmintHalvingSchedule = bostromHalvingSchedule,
+): InvestmintPreview {
+  return async (amount, resource, length) =>
+    calculateInvestmint(params, amount, resource, length, height, schedule);
+}
+
+export interface InvestmintSlot {
+  readonly resource: string;
+  /** Resource locked in the slot until `unlockTime` */
+  readonly amount: Coin;
+  readonly unlockTime: Date;
+}
+
+export interface InvestmintSlots {
+  readonly maxSlots: number;
+  readonly active: readonly InvestmintSlot[];
+  /** Number of investmints the neuron can still start */
+  readonly free: number;
+}
+
+/**
+ * Lists the vesting periods of the account that are still locked at the given time.
+ * Investmints add these periods to the neuron's periodic vesting account, every other
+ * account type has no active slots.
+ */
+export function investmintSlotsFromAccount(account: Any, time: Date): InvestmintSlot[] {
+  if (account.typeUrl !== "/cosmos.vesting.v1beta1.PeriodicVestingAccount") return [];
+  const { startTime, vestingPeriods } = PeriodicVestingAccount.decode(account.value);
+  const slots: InvestmintSlot[] = [];
+  // Period lengths are relative to the end of the previous period
+  let endTime = startTime.toNumber();
+  for (const { length, amount } of vestingPeriods) {
+    endTime += length.toNumber();
+    const coin = amount.find(({ denom }) => denom === voltDenom || denom === ampereDenom) ?? amount[0];
+    if (endTime * 1000 <= time.getTime() || !coin) continue;
+    slots.push({
+      resource: coin.denom,
+      amount: { denom: coin.denom, amount: coin.amount },
+      unlockTime: new Date(endTime * 1000),
+    });
+  }
+  return slots;
+}
@@ -0,0 +1,65 @@
+import {
+  isValidParticle,
+  normalizeParticle,
+  particleFromBytes,
+  particleFromText,
+  particleToCidV1,
+} from "./particle";
+
+/** Deterministic content of the given length, so that every chunk differs */
+function content(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = (i * 31 + 7) % 251;
+  return bytes;
+}
+
+// The expected particles are the CIDs `ipfs add` assigns with its default settings
+describe("particleFromBytes", () => {
+  it("computes the particle of empty content", () => {
+    expect(particleFromBytes(new Uint8Array())).toEqual("QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH");
+  });
+
+  it("computes the particle of text", () => {
+    expect(particleFromText("hello world\n")).toEqual("QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o");
+  });
+
+  it("keeps content of one chunk in a single node", () => {
+    expect(particleFromBytes(content(262144))).toEqual("QmNjsPT1urL55WXngMVgvZrn2apSux229uFBoAgmKTtjAd");
+  });
+
+  it("links the chunks of content over 256 KiB", () => {
+    expect(particleFromBytes(content(300000))).toEqual("QmR9BAE3mzYhqgJ5eoHLYPV91oG8EcsUutiv8FW2QtyL1t");
+  });
+
+  it("adds a level to the DAG beyond 174 chunks", () => {
+    expect(particleFromBytes(content(262144 * 174 + 10))).toEqual(
+      "QmckW6htqiiw5Jv8359mTVQevWaFg3wyd2kNdJsZywi3ps",
+    );
+  });
+});
+
+describe("particle CIDs", () => {
+  const particle = "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o";
+  const cidV1 = "bafybeicg2rebjoofv4kbyovkw7af3rpiitvnl6i7ckcywaq6xjcxnc2mby";
+
+  it("validates particles", () => {
+    expect(isValidParticle(particle)).toBe(true);
+    expect(isValidParticle(cidV1)).toBe(false);
+    expect(isValidParticle("QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5")).toBe(false);
+  });
+
+  it("converts between CIDv0 and CIDv1", () => {
+    expect(particleToCidV1(particle)).toEqual(cidV1);
+    expect(normalizeParticle(cidV1)).toEqual(particle);
+    expect(normalizeParticle(cidV1.toUpperCase())).toEqual(particle);
+    expect(normalizeParticle(` ${particle} `)).toEqual(particle);
+  });
+
+  it("rejects strings that are no dag-pb sha2-256 CIDs", () => {
+    expect(() => normalizeParticle("hello")).toThrowError(/not a valid CID/);
+    // A raw leaf CIDv1
+    expect(() =>
+      normalizeParticle("bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"),
+    ).toThrowError(/must be a dag-pb CID/);
+  });
+});
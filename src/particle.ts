@@ -0,0 +1,239 @@
+import { sha256 } from "@cosmjs/crypto";
+import { toUtf8 } from "@cosmjs/encoding";
+import { Writer } from "protobufjs/minimal";
+
+/** Chunk size used by `ipfs add` with the default size splitter */
+const chunkSize = 262144;
+/** Maximum number of links per node of the balanced DAG built by `ipfs add` */
+const maxLinksPerNode = 174;
+
+const sha256Code = 0x12;
+const sha256Length = 32;
+const dagPbCodec = 0x70;
+const unixFsFileType = 2;
+
+const base58Alphabet = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const base32Alphabet = "abcdefghijklmnopqrstuvwxyz234567";
+const cidV0Pattern = /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/;
+
+interface DagNode {
+  /** Multihash of the serialized node */
+  readonly hash: Uint8Array;
+  /** Size of the serialized node plus the sizes of all nodes below it */
+  readonly cumulativeSize: number;
+  /** Size of the file content covered by this node */
+  readonly fileSize: number;
+}
+
+function toBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] * 256;
+      digits[i] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  let zeros = "";
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) zeros += base58Alphabet[0];
+  return (
+    zeros +
+    digits
+      .reverse()
+      .map((digit) => base58Alphabet[digit])
+      .join("")
+  );
+}
+
+function fromBase58(encoded: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const character of encoded) {
+    let carry = base58Alphabet.indexOf(character);
+    if (carry < 0) throw new Error(`Invalid base58 character "${character}"`);
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58;
+      bytes[i] = carry % 256;
+      carry = Math.floor(carry / 256);
+    }
+    while (carry > 0) {
+      bytes.push(carry % 256);
+      carry = Math.floor(carry / 256);
+    }
+  }
+  for (let i = 0; i < encoded.length && encoded[i] === base58Alphabet[0]; i++) bytes.push(0);
+  return Uint8Array.from(bytes.reverse());
+}
+
+function toBase32(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = value * 256 + byte;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += base32Alphabet[Math.floor(value / 2 ** bits) % 32];
+    }
+    value %= 2 ** bits;
+  }
+  if (bits > 0) output += base32Alphabet[(value * 2 ** (5 - bits)) % 32];
+  return output;
+}
+
+function fromBase32(encoded: string): Uint8Array {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const character of encoded) {
+    const digit = base32Alphabet.indexOf(character);
+    if (digit < 0) throw new Error(`Invalid base32 character "${character}"`);
+    value = value * 32 + digit;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push(Math.floor(value / 2 ** bits) % 256);
+      value %= 2 ** bits;
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function multihashOf(block: Uint8Array): Uint8Array {
+  return Uint8Array.from([sha256Code, sha256Length, ...sha256(block)]);
+}
+
+function isCidV0Multihash(multihash: Uint8Array): boolean {
+  return (
+    multihash.length === sha256Length + 2 && multihash[0] === sha256Code && multihash[1] === sha256Length
+  );
+}
+
+function leafNode(chunk: Uint8Array): DagNode {
+  const unixFs = Writer.create().uint32(8).uint32(unixFsFileType);
+  if (chunk.length > 0) unixFs.uint32(18).bytes(chunk);
+  unixFs.uint32(24).uint64(chunk.length);
+  const block = Writer.create().uint32(10).bytes(unixFs.finish()).finish();
+  return { hash: multihashOf(block), cumulativeSize: block.length, fileSize: chunk.length };
+}
+
+function parentNode(children: readonly DagNode[]): DagNode {
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+  const unixFs = Writer.create().uint32(8).uint32(unixFsFileType).uint32(24).uint64(fileSize);
+  children.forEach((child) => unixFs.uint32(32).uint64(child.fileSize));
+  // dag-pb serializes links before data
+  const writer = Writer.create();
+  children.forEach((child) =>
+    writer
+      .uint32(18)
+      .fork()
+      .uint32(10)
+      .bytes(child.hash)
+      .uint32(18)
+      .string("")
+      .uint32(24)
+      .uint64(child.cumulativeSize)
+      .ldelim(),
+  );
+  const block = writer.uint32(10).bytes(unixFs.finish()).finish();
+  return {
+    hash: multihashOf(block),
+    cumulativeSize: children.reduce((sum, child) => sum + child.cumulativeSize, block.length),
+    fileSize: fileSize,
+  };
+}
+
+function decodeMultibase(cid: string): Uint8Array | null {
+  switch (cid[0]) {
+    case "b":
+      return fromBase32(cid.slice(1));
+    case "B":
+      return fromBase32(cid.slice(1).toLowerCase());
+    case "z":
+      return fromBase58(cid.slice(1));
+    default:
+      return null;
+  }
+}
+
+function readCidV1(bytes: Uint8Array, cid: string): [number, number, Uint8Array] {
+  let offset = 0;
+  const readVarint = (): number => {
+    let value = 0;
+    for (let shift = 0; offset < bytes.length; shift += 7) {
+      const byte = bytes[offset++];
+      value += (byte % 0x80) * 2 ** shift;
+      if (byte < 0x80) return value;
+    }
+    throw new Error(`Particle "${cid}" is truncated`);
+  };
+  const version = readVarint();
+  const codec = readVarint();
+  return [version, codec, bytes.slice(offset)];
+}
+
+function cidMultihash(cid: string): Uint8Array {
+  const trimmed = cid.trim();
+  if (cidV0Pattern.test(trimmed)) {
+    const multihash = fromBase58(trimmed);
+    if (isCidV0Multihash(multihash)) return multihash;
+  } else if (trimmed.length > 1) {
+    const bytes = decodeMultibase(trimmed);
+    if (bytes) {
+      const [version, codec, multihash] = readCidV1(bytes, trimmed);
+      if (version === 1 && codec === dagPbCodec && isCidV0Multihash(multihash)) return multihash;
+      throw new Error(`Particle "${cid}" must be a dag-pb CID using sha2-256`);
+    }
+  }
+  throw new Error(`Particle "${cid}" is not a valid CID`);
+}
+
+/**
+ * Computes the particle (CIDv0) of the given content the same way
+ * `ipfs add` does with its default settings, without touching the network.
+ */
+export function particleFromBytes(data: Uint8Array): string {
+  let nodes: DagNode[] = [];
+  for (let offset = 0; offset < data.length || offset === 0; offset += chunkSize) {
+    nodes.push(leafNode(data.slice(offset, offset + chunkSize)));
+  }
+  while (nodes.length > 1) {
+    const parents: DagNode[] = [];
+    for (let start = 0; start < nodes.length; start += maxLinksPerNode) {
+      parents.push(parentNode(nodes.slice(start, start + maxLinksPerNode)));
+    }
+    nodes = parents;
+  }
+  return toBase58(nodes[0].hash);
+}
+
+/** Computes the particle (CIDv0) of the UTF-8 encoded text */
+export function particleFromText(text: string): string {
+  return particleFromBytes(toUtf8(text));
+}
+
+/** Returns true if the given string is a particle the chain accepts, i.e. a valid CIDv0 */
+export function isValidParticle(particle: string): boolean {
+  return cidV0Pattern.test(particle) && isCidV0Multihash(fromBase58(particle));
+}
+
+/**
+ * Converts a CIDv0 or a dag-pb/sha2-256 CIDv1 (base32 or base58btc multibase)
+ * into the CIDv0 form used for particles.
+ *
+ * Throws if the string is not a CID or cannot be expressed as CIDv0.
+ */
+export function normalizeParticle(cid: string): string {
+  return toBase58(cidMultihash(cid));
+}
+
+/** Converts a particle into its base32 encoded CIDv1 form as used by IPFS gateways */
+export function particleToCidV1(cid: string): string {
+  const multihash = cidMultihash(cid);
+  return "b" + toBase32(Uint8Array.from([1, dagPbCodec, ...multihash]));
+}
@@ -0,0 +1,75 @@
+import { poolPosition, PoolState } from "./poolanalytics";
+import { LiquidityParams } from "./types";
+
+const params: LiquidityParams = {
+  minInitDepositAmount: "1000000",
+  initPoolCoinMintAmount: "1000000",
+  maxReserveCoinAmount: "0",
+  poolCreationFee: [{ denom: "boot", amount: "40000000" }],
+  swapFeeRate: "0.003",
+  withdrawFeeRate: "0.003",
+  maxOrderAmountRatio: "0.1",
+  unitBatchHeight: 1,
+  circuitBreakerEnabled: false,
+};
+
+const state = (reserves: readonly [string, string], supply: string): PoolState => ({
+  pool: {
+    id: 1,
+    typeId: 1,
+    reserveCoinDenoms: ["boot", "hydrogen"],
+    reserveAccountAddress: "bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm",
+    poolCoinDenom: "pool1",
+  },
+  reserves: [
+    { denom: "boot", amount: reserves[0] },
+    { denom: "hydrogen", amount: reserves[1] },
+  ],
+  poolCoinSupply: { denom: "pool1", amount: supply },
+});
+
+describe("poolPosition", () => {
+  it("truncates the withdrawn reserve coins only once, after the withdraw fee", () => {
+    // 100 * 0.333333333333333333 * 0.997 is 33.23, truncating 33.33 to 33 first would give 32.9
+    const position = poolPosition(state(["100", "100"], "3"), "1", params);
+    expect(position.underlying).toEqual([
+      { denom: "boot", amount: "33" },
+      { denom: "hydrogen", amount: "33" },
+    ]);
+    expect(position.withdrawable).toEqual([
+      { denom: "boot", amount: "33" },
+      { denom: "hydrogen", amount: "33" },
+    ]);
+  });
+
+  it("truncates the share of the supply and the products to 18 fractional digits", () => {
+    const position = poolPosition(state(["1000000000000", "3000000000000"], "3000000"), "1000000", params);
+    // The share is 0.333333333333333333, so the underlying reserve falls short of a third
+    expect(position.underlying).toEqual([
+      { denom: "boot", amount: "333333333333" },
+      { denom: "hydrogen", amount: "999999999999" },
+    ]);
+    expect(position.withdrawable).toEqual([
+      { denom: "boot", amount: "332333333333" },
+      { denom: "hydrogen", amount: "996999999999" },
+    ]);
+  });
+
+  it("charges no withdraw fee when the whole supply is withdrawn", () => {
+    const position = poolPosition(state(["100", "7"], "3"), "3", params);
+    expect(position.share).toEqual(1);
+    expect(position.withdrawable).toEqual([
+      { denom: "boot", amount: "100" },
+      { denom: "hydrogen", amount: "7" },
+    ]);
+  });
+
+  it("values pool coins of a pool without supply at nothing", () => {
+    const position = poolPosition(state(["100", "7"], "0"), "3", params);
+    expect(position.share).toEqual(0);
+    expect(position.withdrawable).toEqual([
+      { denom: "boot", amount: "0" },
+      { denom: "hydrogen", amount: "0" },
+    ]);
+  });
+});
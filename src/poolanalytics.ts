@@ -0,0 +1,168 @@
+import { Decimal, Uint64 } from "@cosmjs/math";
+import { Coin } from "@cosmjs/stargate";
+
+import { divideIntegers, toDecimalString } from "./swapquote";
+import { PoolReserves } from "./swaproutes";
+import { LiquidityParams } from "./types";
+
+export interface PoolState extends PoolReserves {
+  /** Total supply of the pool coin */
+  readonly poolCoinSupply: Coin;
+}
+
+/** Prices of denoms in a common quote denom, derived from the pools paired with it */
+export interface QuotePrices {
+  readonly quoteDenom: string;
+  /** Amount of the quote denom per unit of each denom, including the quote denom itself */
+  readonly prices: ReadonlyMap<string, number>;
+}
+
+export interface PoolAnalytics {
+  readonly poolId: number;
+  readonly poolCoinSupply: Coin;
+  readonly reserves: readonly Coin[];
+  /** Reserve of the first reserve coin denom per reserve of the second, as decimal string */
+  readonly spotPrice: string;
+  /** Total value of the reserves in the quote denom, null without quote prices for all reserve coins */
+  readonly tvl: Coin | null;
+}
+
+export interface PoolPosition {
+  readonly poolId: number;
+  readonly poolCoin: Coin;
+  /** Share of the pool the pool coins represent, between 0 and 1 */
+  readonly share: number;
+  /** Reserve coins the pool coins represent */
+  readonly underlying: readonly Coin[];
+  /** Reserve coins a withdrawal of the pool coins would return after the withdraw fee */
+  readonly withdrawable: readonly Coin[];
+  /** Value of the underlying reserve coins in the quote denom, null without quote prices for all of them */
+  readonly value: Coin | null;
+}
+
+function reserveOf(reserves: readonly Coin[], denom: string): string {
+  return reserves.find((reserve) => reserve.denom === denom)?.amount ?? "0";
+}
+
+/** Number of fractional digits of the sdk.Dec type */
+const decFractionalDigits = 18;
+
+/** Multiplies two sdk.Dec values and truncates the product to the precision of sdk.Dec, like Dec.MulTruncate */
+function mulTruncate(a: Decimal, b: Decimal): Decimal {
+  const product = Decimal.fromAtomics(
+    a.multiply(Uint64.fromString(b.atomics)).atomics,
+    2 * decFractionalDigits,
+  );
+  const [whole, fraction] = product.toString().split(".");
+  return Decimal.fromUserInput(
+    fraction ? `${whole}.${fraction.slice(0, decFractionalDigits)}` : whole,
+    decFractionalDigits,
+  );
+}
+
+/** Truncates an sdk.Dec to an integer, like Dec.TruncateInt */
+function truncateInt(dec: Decimal): string {
+  return dec.toString().split(".")[0];
+}
+
+function reserveAmount(reserves: readonly Coin[], denom: string): number {
+  return Number(reserveOf(reserves, denom));
+}
+
+function quoteValue(coins: readonly Coin[], prices: QuotePrices | undefined): Coin | null {
+  if (!prices) return null;
+  let value = 0;
+  for (const { denom, amount } of coins) {
+    const price = prices.prices.get(denom);
+    if (price === undefined) return null;
+    value += Number(amount) * price;
+  }
+  return { denom: prices.quoteDenom, amount: Math.floor(value).toString() };
+}
+
+/**
+ * Prices every denom paired with `quoteDenom` at the spot price of its pool.
+ * If a denom has several pools with the quote denom, the one with the largest quote reserve is used.
+ */
+export function quotePrices(pools: readonly PoolReserves[], quoteDenom: string): QuotePrices {
+  const prices = new Map<string, number>([[quoteDenom, 1]]);
+  const depths = new Map<string, number>();
+  for (const { pool, reserves } of pools) {
+    if (pool.reserveCoinDenoms.length !== 2 || !pool.reserveCoinDenoms.includes(quoteDenom)) continue;
+    const denom = pool.reserveCoinDenoms.find((candidate) => candidate !== quoteDenom) as string;
+    const quoteReserve = reserveAmount(reserves, quoteDenom);
+    const denomReserve = reserveAmount(reserves, denom);
+    if (!quoteReserve || !denomReserve || quoteReserve <= (depths.get(denom) ?? 0)) continue;
+    depths.set(denom, quoteReserve);
+    prices.set(denom, quoteReserve / denomReserve);
+  }
+  return { quoteDenom: quoteDenom, prices: prices };
+}
+
+export function poolAnalytics(state: PoolState, prices?: QuotePrices): PoolAnalytics {
+  const [firstDenom, secondDenom] = state.pool.reserveCoinDenoms;
+  const secondReserve = reserveAmount(state.reserves, secondDenom);
+  const reserves = state.pool.reserveCoinDenoms.map((denom) => ({
+    denom: denom,
+    amount: reserveOf(state.reserves, denom),
+  }));
+  return {
+    poolId: state.pool.id,
+    poolCoinSupply: state.poolCoinSupply,
+    reserves: reserves,
+    spotPrice: secondReserve
+      ? toDecimalString(reserveAmount(state.reserves, firstDenom) / secondReserve)
+      : "0",
+    tvl: quoteValue(reserves, prices),
+  };
+}
+
+/**
+ * Values `poolCoinAmount` pool coins of the pool. Withdrawals pay `withdrawFeeRate` on every
+ * reserve coin, except when the whole pool coin supply is withdrawn.
+ *
+ * The reserve coins are computed like the chain does: the withdrawn share of the supply and
+ * every product are truncated to the precision of sdk.Dec, and only the final amounts to integers.
+ */
+export function poolPosition(
+  state: PoolState,
+  poolCoinAmount: string,
+  params: LiquidityParams,
+  prices?: QuotePrices,
+): PoolPosition {
+  const supply = state.poolCoinSupply.amount;
+  const hasSupply = /[1-9]/.test(supply);
+  const withdrawsAll =
+    hasSupply && Decimal.fromAtomics(poolCoinAmount, 0).isGreaterThanOrEqual(Decimal.fromAtomics(supply, 0));
+  const proportion = !hasSupply
+    ? Decimal.zero(decFractionalDigits)
+    : withdrawsAll
+    ? Decimal.one(decFractionalDigits)
+    : Decimal.fromAtomics(
+        divideIntegers(Decimal.fromUserInput(poolCoinAmount, decFractionalDigits).atomics, supply),
+        decFractionalDigits,
+      );
+  const keptAfterFee = withdrawsAll
+    ? Decimal.one(decFractionalDigits)
+    : Decimal.one(decFractionalDigits).minus(
+        Decimal.fromUserInput(params.withdrawFeeRate, decFractionalDigits),
+      );
+  // Exact, since an sdk.Dec times an integer needs no more fractional digits
+  const reserveShares = state.pool.reserveCoinDenoms.map((denom) => ({
+    denom: denom,
+    share: proportion.multiply(Uint64.fromString(reserveOf(state.reserves, denom))),
+  }));
+  const underlying = reserveShares.map(({ denom, share }) => ({ denom: denom, amount: truncateInt(share) }));
+  return {
+    poolId: state.pool.id,
+    poolCoin: { denom: state.pool.poolCoinDenom, amount: poolCoinAmount },
+    // The share is informational, a double is precise enough for it
+    share: hasSupply ? Math.min(Number(poolCoinAmount) / Number(supply), 1) : 0,
+    underlying: underlying,
+    withdrawable: reserveShares.map(({ denom, share }) => ({
+      denom: denom,
+      amount: truncateInt(mulTruncate(share, keptAfterFee)),
+    })),
+    value: quoteValue(underlying, prices),
+  };
+}
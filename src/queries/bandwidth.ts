@@ -1,18 +1,32 @@
 /* eslint-disable @typescript-eslint/naming-convention */
+import { toAscii } from "@cosmjs/encoding";
 import { createProtobufRpcClient, QueryClient } from "@cosmjs/stargate";
 
 import {
   QueryClientImpl,
   QueryLoadResponse,
   QueryNeuronBandwidthResponse,
+  QueryParamsResponse,
   QueryPriceResponse,
+  QueryTotalBandwidthResponse,
 } from "../codec/cyber/bandwidth/v1beta1/query";
+import { NeuronBandwidth } from "../codec/cyber/bandwidth/v1beta1/types";
+import { queryTrustedValue, TrustedHeader } from "./utils";
+
+/** Prefix of the neuron bandwidth entries in the bandwidth module store */
+const accountStoreKeyPrefix = 0x01;
 
 export interface BandwidthExtension {
   readonly bandwidth: {
     readonly load: () => Promise<QueryLoadResponse>;
     readonly price: () => Promise<QueryPriceResponse>;
+    readonly totalBandwidth: () => Promise<QueryTotalBandwidthResponse>;
     readonly account: (agent: string) => Promise<QueryNeuronBandwidthResponse>;
+    readonly params: () => Promise<QueryParamsResponse>;
+    /** Store reads proven against the app hash of a header the caller trusts */
+    readonly verified: {
+      readonly account: (neuron: string, header: TrustedHeader) => Promise<NeuronBandwidth | null>;
+    };
   };
 }
 
@@ -32,12 +46,28 @@ export function setupBandwidthExtension(base: QueryClient): BandwidthExtension {
         const response = await queryService.Price({});
         return response;
       },
+      totalBandwidth: async () => {
+        const response = await queryService.TotalBandwidth({});
+        return response;
+      },
       account: async (neuron: string) => {
         const response = await queryService.NeuronBandwidth({
           neuron: neuron,
         });
         return response;
       },
+      params: async () => {
+        const response = await queryService.Params({});
+        return response;
+      },
+      verified: {
+        account: async (neuron: string, header: TrustedHeader) => {
+          // key: go-cyber x/bandwidth/types/keys.go AccountStoreKey
+          const key = Uint8Array.from([accountStoreKeyPrefix, ...toAscii(neuron)]);
+          const responseData = await queryTrustedValue(base, "bandwidth", key, header);
+          return responseData.length ? NeuronBandwidth.decode(responseData) : null;
+        },
+      },
     },
   };
 }
@@ -1,4 +1,5 @@
 /* eslint-disable @typescript-eslint/naming-convention */
+import { fromBech32 } from "@cosmjs/encoding";
 import { createProtobufRpcClient, QueryClient } from "@cosmjs/stargate";
 
 import {
@@ -8,6 +9,16 @@ import {
   QueryRouteResponse,
   QueryRoutesResponse,
 } from "../codec/cyber/grid/v1beta1/query";
+import { Route } from "../codec/cyber/grid/v1beta1/types";
+import { createPageRequest, queryTrustedValue, TrustedHeader } from "./utils";
+
+/** Prefix of the route entries in the grid module store */
+const routeKeyPrefix = 0x00;
+
+function lengthPrefixedAddress(address: string): readonly number[] {
+  const { data } = fromBech32(address);
+  return [data.length, ...data];
+}
 
 export interface GridExtension {
   readonly grid: {
@@ -16,8 +27,12 @@ export interface GridExtension {
     readonly destinationRoutedEnergy: (destination: string) => Promise<QueryRoutedEnergyResponse>;
     readonly sourceRoutedEnergy: (source: string) => Promise<QueryRoutedEnergyResponse>;
     readonly route: (source: string, destination: string) => Promise<QueryRouteResponse>;
-    readonly routes: () => Promise<QueryRoutesResponse>;
+    readonly routes: (page?: number, perPage?: number) => Promise<QueryRoutesResponse>;
     readonly params: () => Promise<QueryParamsResponse>;
+    /** Store reads proven against the app hash of a header the caller trusts */
+    readonly verified: {
+      readonly route: (source: string, destination: string, header: TrustedHeader) => Promise<Route | null>;
+    };
   };
 }
 
@@ -52,8 +67,10 @@ export function setupGridExtension(base: QueryClient): GridExtension {
         });
         return response;
       },
-      routes: async () => {
-        const response = await queryService.Routes({});
+      routes: async (page?: number, perPage?: number) => {
+        const response = await queryService.Routes({
+          pagination: createPageRequest(page, perPage),
+        });
         return response;
       },
 
@@ -61,6 +78,18 @@ export function setupGridExtension(base: QueryClient): GridExtension {
         const response = await queryService.Params({});
         return response;
       },
+      verified: {
+        route: async (source: string, destination: string, header: TrustedHeader) => {
+          // key: go-cyber x/grid/types/keys.go GetRouteKey
+          const key = Uint8Array.from([
+            routeKeyPrefix,
+            ...lengthPrefixedAddress(source),
+            ...lengthPrefixedAddress(destination),
+          ]);
+          const responseData = await queryTrustedValue(base, "grid", key, header);
+          return responseData.length ? Route.decode(responseData) : null;
+        },
+      },
     },
   };
 }
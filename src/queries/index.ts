@@ -4,3 +4,4 @@ export { setupBandwidthExtension, BandwidthExtension } from "./bandwidth";
 export { setupGridExtension, GridExtension } from "./grid";
 export { setupLiquidityExtension, LiquidityExtension } from "./liquidity";
 export { setupResourcesExtension, ResourcesExtension } from "./resources";
+export { TrustedHeader } from "./utils";
@@ -5,16 +5,50 @@ import Long from "long";
 
 import {
   QueryClientImpl,
+  QueryLiquidityPoolBatchResponse,
   QueryLiquidityPoolResponse,
   QueryLiquidityPoolsResponse,
   QueryParamsResponse,
+  QueryPoolBatchDepositMsgResponse,
+  QueryPoolBatchDepositMsgsResponse,
+  QueryPoolBatchSwapMsgResponse,
+  QueryPoolBatchSwapMsgsResponse,
+  QueryPoolBatchWithdrawMsgResponse,
+  QueryPoolBatchWithdrawMsgsResponse,
 } from "../codec/tendermint/liquidity/v1beta1/query";
+import { createPageRequest } from "./utils";
+
+function toLong(value: number): Long {
+  return Long.fromString(new Uint53(value).toString(), true);
+}
 
 export interface LiquidityExtension {
   readonly liquidity: {
     readonly params: () => Promise<QueryParamsResponse>;
     readonly pool: (id: number) => Promise<QueryLiquidityPoolResponse>;
-    readonly pools: () => Promise<QueryLiquidityPoolsResponse>;
+    readonly pools: (page?: number, perPage?: number) => Promise<QueryLiquidityPoolsResponse>;
+    readonly batch: (poolId: number) => Promise<QueryLiquidityPoolBatchResponse>;
+    readonly batchSwapMsgs: (
+      poolId: number,
+      page?: number,
+      perPage?: number,
+    ) => Promise<QueryPoolBatchSwapMsgsResponse>;
+    readonly batchSwapMsg: (poolId: number, msgIndex: number) => Promise<QueryPoolBatchSwapMsgResponse>;
+    readonly batchDepositMsgs: (
+      poolId: number,
+      page?: number,
+      perPage?: number,
+    ) => Promise<QueryPoolBatchDepositMsgsResponse>;
+    readonly batchDepositMsg: (poolId: number, msgIndex: number) => Promise<QueryPoolBatchDepositMsgResponse>;
+    readonly batchWithdrawMsgs: (
+      poolId: number,
+      page?: number,
+      perPage?: number,
+    ) => Promise<QueryPoolBatchWithdrawMsgsResponse>;
+    readonly batchWithdrawMsg: (
+      poolId: number,
+      msgIndex: number,
+    ) => Promise<QueryPoolBatchWithdrawMsgResponse>;
   };
 }
 
@@ -36,8 +70,56 @@ export function setupLiquidityExtension(base: QueryClient): LiquidityExtension {
         });
         return response;
       },
-      pools: async () => {
-        const response = await queryService.LiquidityPools({});
+      pools: async (page?: number, perPage?: number) => {
+        const response = await queryService.LiquidityPools({
+          pagination: createPageRequest(page, perPage),
+        });
+        return response;
+      },
+      batch: async (poolId: number) => {
+        const response = await queryService.LiquidityPoolBatch({ poolId: toLong(poolId) });
+        return response;
+      },
+      batchSwapMsgs: async (poolId: number, page?: number, perPage?: number) => {
+        const response = await queryService.PoolBatchSwapMsgs({
+          poolId: toLong(poolId),
+          pagination: createPageRequest(page, perPage),
+        });
+        return response;
+      },
+      batchSwapMsg: async (poolId: number, msgIndex: number) => {
+        const response = await queryService.PoolBatchSwapMsg({
+          poolId: toLong(poolId),
+          msgIndex: toLong(msgIndex),
+        });
+        return response;
+      },
+      batchDepositMsgs: async (poolId: number, page?: number, perPage?: number) => {
+        const response = await queryService.PoolBatchDepositMsgs({
+          poolId: toLong(poolId),
+          pagination: createPageRequest(page, perPage),
+        });
+        return response;
+      },
+      batchDepositMsg: async (poolId: number, msgIndex: number) => {
+        const response = await queryService.PoolBatchDepositMsg({
+          poolId: toLong(poolId),
+          msgIndex: toLong(msgIndex),
+        });
+        return response;
+      },
+      batchWithdrawMsgs: async (poolId: number, page?: number, perPage?: number) => {
+        const response = await queryService.PoolBatchWithdrawMsgs({
+          poolId: toLong(poolId),
+          pagination: createPageRequest(page, perPage),
+        });
+        return response;
+      },
+      batchWithdrawMsg: async (poolId: number, msgIndex: number) => {
+        const response = await queryService.PoolBatchWithdrawMsg({
+          poolId: toLong(poolId),
+          msgIndex: toLong(msgIndex),
+        });
         return response;
       },
     },
@@ -6,20 +6,19 @@ import {
   QueryClientImpl,
   QueryKarmaResponse,
   QueryLinkExistResponse,
+  QueryNegentropyParticleResponse,
+  QueryNegentropyResponse,
+  QueryParamsResponse,
   QueryRankResponse,
   QuerySearchResponse,
 } from "../codec/cyber/rank/v1beta1/query";
+import { normalizeParticle } from "../particle";
 
 export function createPagination(page?: number, perPage?: number): PageRequest {
-  return page
-    ? {
-        page: page,
-        perPage: perPage ? perPage : 10,
-      }
-    : {
-        page: 0,
-        perPage: 10,
-      };
+  return {
+    page: page ? page : 0,
+    perPage: perPage ? perPage : 10,
+  };
 }
 
 export interface RankExtension {
@@ -30,6 +29,10 @@ export interface RankExtension {
     readonly karma: (neuron: string) => Promise<QueryKarmaResponse>;
     readonly isLinkExist: (from: string, to: string, agent: string) => Promise<QueryLinkExistResponse>;
     readonly isAnyLinkExist: (from: string, to: string) => Promise<QueryLinkExistResponse>;
+    readonly top: (page?: number, perPage?: number) => Promise<QuerySearchResponse>;
+    readonly negentropy: () => Promise<QueryNegentropyResponse>;
+    readonly particleNegentropy: (particle: string) => Promise<QueryNegentropyParticleResponse>;
+    readonly params: () => Promise<QueryParamsResponse>;
   };
 }
 
@@ -43,21 +46,22 @@ export function setupRankExtension(base: QueryClient): RankExtension {
     rank: {
       search: async (particle: string, page?: number, perPage?: number) => {
         const response = await queryService.Search({
-          particle: particle,
+          // Particles are normalized to CIDv0 so malformed ones are rejected before reaching the chain
+          particle: normalizeParticle(particle),
           pagination: createPagination(page, perPage),
         });
         return response;
       },
       backlinks: async (particle: string, page?: number, perPage?: number) => {
         const response = await queryService.Backlinks({
-          particle: particle,
+          particle: normalizeParticle(particle),
           pagination: createPagination(page, perPage),
         });
         return response;
       },
       rank: async (particle: string) => {
         const response = await queryService.Rank({
-          particle: particle,
+          particle: normalizeParticle(particle),
         });
         return response;
       },
@@ -69,19 +73,37 @@ export function setupRankExtension(base: QueryClient): RankExtension {
       },
       isLinkExist: async (from: string, to: string, agent: string) => {
         const response = await queryService.IsLinkExist({
-          from: from,
-          to: to,
+          from: normalizeParticle(from),
+          to: normalizeParticle(to),
           address: agent,
         });
         return response;
       },
       isAnyLinkExist: async (from: string, to: string) => {
         const response = await queryService.IsAnyLinkExist({
-          from: from,
-          to: to,
+          from: normalizeParticle(from),
+          to: normalizeParticle(to),
         });
         return response;
       },
+      top: async (page?: number, perPage?: number) => {
+        const response = await queryService.Top(createPagination(page, perPage));
+        return response;
+      },
+      negentropy: async () => {
+        const response = await queryService.Negentropy({});
+        return response;
+      },
+      particleNegentropy: async (particle: string) => {
+        const response = await queryService.ParticleNegentropy({
+          particle: normalizeParticle(particle),
+        });
+        return response;
+      },
+      params: async () => {
+        const response = await queryService.Params({});
+        return response;
+      },
     },
   };
 }
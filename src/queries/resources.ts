@@ -1,11 +1,18 @@
 /* eslint-disable @typescript-eslint/naming-convention */
-import { createProtobufRpcClient, QueryClient } from "@cosmjs/stargate";
+import { Uint53 } from "@cosmjs/math";
+import { Coin, createProtobufRpcClient, QueryClient } from "@cosmjs/stargate";
+import Long from "long";
 
-import { QueryClientImpl, QueryParamsResponse } from "../codec/cyber/resources/v1beta1/query";
+import {
+  QueryClientImpl,
+  QueryInvestmintResponse,
+  QueryParamsResponse,
+} from "../codec/cyber/resources/v1beta1/query";
 
 export interface ResourcesExtension {
   readonly resources: {
     readonly params: () => Promise<QueryParamsResponse>;
+    readonly investmint: (amount: Coin, resource: string, length: number) => Promise<QueryInvestmintResponse>;
   };
 }
 
@@ -21,6 +28,14 @@ export function setupResourcesExtension(base: QueryClient): ResourcesExtension {
         const response = await queryService.Params({});
         return response;
       },
+      investmint: async (amount: Coin, resource: string, length: number) => {
+        const response = await queryService.Investmint({
+          amount: amount,
+          resource: resource,
+          length: Long.fromString(new Uint53(length).toString()),
+        });
+        return response;
+      },
     },
   };
 }
@@ -0,0 +1,68 @@
+import { calculateExistenceRoot, iavlSpec, ics23, tendermintSpec } from "@confio/ics23";
+import { toAscii } from "@cosmjs/encoding";
+import { QueryClient } from "@cosmjs/stargate";
+
+import { queryTrustedValue } from "./utils";
+
+const key = Uint8Array.from([0x01, ...toAscii("bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm")]);
+const value = toAscii("neuron bandwidth");
+
+/** A store with a single entry and a multistore with a single store, proven without inner nodes */
+const subProof = ics23.ExistenceProof.create({
+  key: key,
+  value: value,
+  leaf: iavlSpec.leafSpec,
+});
+const storeRoot = calculateExistenceRoot(subProof);
+const storeProof = ics23.ExistenceProof.create({
+  key: toAscii("bandwidth"),
+  value: storeRoot,
+  leaf: tendermintSpec.leafSpec,
+});
+const appHash = calculateExistenceRoot(storeProof);
+
+function fakeQueryClient(height: number): QueryClient & { readonly heights: Array<number | undefined> } {
+  const heights: Array<number | undefined> = [];
+  const encode = (exist: ics23.IExistenceProof): Uint8Array =>
+    ics23.CommitmentProof.encode({ exist: exist }).finish();
+  return {
+    heights: heights,
+    queryRawProof: async (_store: string, _key: Uint8Array, desiredHeight?: number) => {
+      heights.push(desiredHeight);
+      return {
+        key: key,
+        value: value,
+        height: height,
+        proof: {
+          ops: [
+            { type: "ics23:iavl", key: key, data: encode(subProof) },
+            { type: "ics23:simple", key: toAscii("bandwidth"), data: encode(storeProof) },
+          ],
+        },
+      };
+    },
+  } as unknown as QueryClient & { readonly heights: Array<number | undefined> };
+}
+
+describe("queryTrustedValue", () => {
+  it("returns the value proven against the app hash of the trusted header", async () => {
+    const base = fakeQueryClient(41);
+    const result = await queryTrustedValue(base, "bandwidth", key, { height: 42, appHash: appHash });
+    expect(result).toEqual(value);
+    // The app hash of a header commits to the state after the previous block
+    expect(base.heights).toEqual([41]);
+  });
+
+  it("rejects a proof that does not lead to the app hash of the trusted header", async () => {
+    const forged = new Uint8Array(appHash.length);
+    await expectAsync(
+      queryTrustedValue(fakeQueryClient(41), "bandwidth", key, { height: 42, appHash: forged }),
+    ).toBeRejected();
+  });
+
+  it("rejects a proof of another height", async () => {
+    await expectAsync(
+      queryTrustedValue(fakeQueryClient(40), "bandwidth", key, { height: 42, appHash: appHash }),
+    ).toBeRejectedWithError(/height 41, got 40/);
+  });
+});
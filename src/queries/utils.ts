@@ -0,0 +1,72 @@
+import { iavlSpec, ics23, tendermintSpec, verifyExistence, verifyNonExistence } from "@confio/ics23";
+import { toAscii, toHex } from "@cosmjs/encoding";
+import { QueryClient } from "@cosmjs/stargate";
+import { ProofOp } from "@cosmjs/tendermint-rpc";
+import { arrayContentEquals } from "@cosmjs/utils";
+import Long from "long";
+
+import { PageRequest } from "../codec/cosmos/base/query/v1beta1/pagination";
+
+/**
+ * A block header the caller trusts, e.g. one a light client has verified against the commit
+ * of a trusted validator set. Its app hash commits to the state after the previous block.
+ * The `Header` type of @cosmjs/tendermint-rpc fits this interface.
+ */
+export interface TrustedHeader {
+  readonly height: number;
+  readonly appHash: Uint8Array;
+}
+
+/**
+ * Builds an offset based cosmos page request. Without page and perPage the chain's default page
+ * is requested, otherwise page defaults to 0 and perPage to 10.
+ */
+export function createPageRequest(page?: number, perPage?: number): PageRequest | undefined {
+  if (page === undefined && perPage === undefined) return undefined;
+  return PageRequest.fromPartial({
+    offset: Long.fromNumber((page ?? 0) * (perPage ?? 10), true),
+    limit: Long.fromNumber(perPage ?? 10, true),
+    countTotal: true,
+  });
+}
+
+function parseProofOp(op: ProofOp, type: string, key: Uint8Array): ics23.CommitmentProof {
+  if (op.type !== type) throw new Error(`Expected proof op of type ${type}, got ${op.type}`);
+  if (!arrayContentEquals(op.key, key)) {
+    throw new Error(`Proven key ${toHex(op.key)} differs from queried key ${toHex(key)}`);
+  }
+  return ics23.CommitmentProof.decode(op.data);
+}
+
+/**
+ * Reads a raw value from a module store at the state `header` commits to, and verifies its Merkle
+ * proof against the header's app hash. Returns an empty array if the proof shows the key is absent.
+ *
+ * Unlike `QueryClient.queryVerified`, which takes the app hash from a header served by the same node,
+ * this does not trust the node: the header must come from the caller.
+ */
+export async function queryTrustedValue(
+  base: QueryClient,
+  store: string,
+  key: Uint8Array,
+  header: TrustedHeader,
+): Promise<Uint8Array> {
+  const stateHeight = header.height - 1;
+  if (stateHeight < 1) throw new Error(`Header at height ${header.height} commits to no state`);
+  const { height, proof, value } = await base.queryRawProof(store, key, stateHeight);
+  if (height !== stateHeight) throw new Error(`Expected proof at height ${stateHeight}, got ${height}`);
+  const storeKey = toAscii(store);
+  const subProof = parseProofOp(proof.ops[0], "ics23:iavl", key);
+  const storeProof = parseProofOp(proof.ops[1], "ics23:simple", storeKey);
+  if (!storeProof.exist?.value) throw new Error(`Proof of store ${store} missing`);
+  const storeRoot = storeProof.exist.value;
+  if (value.length) {
+    if (!subProof.exist) throw new Error("Existence proof missing");
+    verifyExistence(subProof.exist, iavlSpec, storeRoot, key, value);
+  } else {
+    if (!subProof.nonexist) throw new Error("Non-existence proof missing");
+    verifyNonExistence(subProof.nonexist, iavlSpec, storeRoot, key);
+  }
+  verifyExistence(storeProof.exist, tendermintSpec, header.appHash, storeKey, storeRoot);
+  return value;
+}
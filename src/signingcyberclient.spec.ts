@@ -0,0 +1,46 @@
+import { OfflineSigner } from "@cosmjs/proto-signing";
+
+import { SigningCyberClient } from "./signingcyberclient";
+import { quoteSwap } from "./swapquote";
+import { LiquidityParams } from "./types";
+
+const neuron = "bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm";
+const params: LiquidityParams = {
+  minInitDepositAmount: "1000000",
+  initPoolCoinMintAmount: "1000000",
+  maxReserveCoinAmount: "0",
+  poolCreationFee: [{ denom: "boot", amount: "40000000" }],
+  swapFeeRate: "0.003",
+  withdrawFeeRate: "0.003",
+  maxOrderAmountRatio: "0.1",
+  unitBatchHeight: 1,
+  circuitBreakerEnabled: false,
+};
+
+describe("SigningCyberClient", () => {
+  describe("swap", () => {
+    it("rejects offers above the pool's maximum order amount without broadcasting", async () => {
+      const client = await SigningCyberClient.offline({} as OfflineSigner);
+      const pool = {
+        id: 5,
+        typeId: 1,
+        reserveCoinDenoms: ["boot", "hydrogen"],
+        reserveAccountAddress: neuron,
+        poolCoinDenom: "pool5",
+      };
+      const reserves = [
+        { denom: "boot", amount: "1000000" },
+        { denom: "hydrogen", amount: "2000000" },
+      ];
+      spyOn(client, "getSwapQuote").and.callFake(async (offerCoin, demandCoinDenom) =>
+        quoteSwap(pool, reserves, params, offerCoin, demandCoinDenom),
+      );
+      const signAndBroadcast = spyOn(client, "signAndBroadcast");
+
+      await expectAsync(client.swap(neuron, ["boot", "hydrogen"], "100001", "auto")).toBeRejectedWithError(
+        /exceeds the maximum order amount of 100000boot in pool 5/,
+      );
+      expect(signAndBroadcast).not.toHaveBeenCalled();
+    });
+  });
+});
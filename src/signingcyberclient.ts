@@ -20,10 +20,11 @@ import {
 import { JsonObject } from "@cosmjs/cosmwasm-stargate";
 import { Secp256k1, Secp256k1Signature, sha256 } from "@cosmjs/crypto";
 import { fromBase64, fromBech32, toBase64, toUtf8 } from "@cosmjs/encoding";
-import { Int53, Uint53 } from "@cosmjs/math";
+import { Decimal, Int53, Uint53 } from "@cosmjs/math";
 import {
   EncodeObject,
   encodePubkey,
+  GeneratedType,
   isOfflineDirectSigner,
   makeAuthInfoBytes,
   makeSignDoc,
@@ -32,7 +33,9 @@ import {
   TxBodyEncodeObject,
 } from "@cosmjs/proto-signing";
 import {
+  AminoConverters,
   AminoTypes,
+  calculateFee,
   Coin,
   createBankAminoConverters,
   createDistributionAminoConverters,
@@ -40,7 +43,7 @@ import {
   createIbcAminoConverters,
   createStakingAminoConverters,
   defaultRegistryTypes,
-  DeliverTxResponse,
+  GasPrice,
   logs,
   MsgDelegateEncodeObject,
   MsgSendEncodeObject,
@@ -75,6 +78,13 @@ import Long from "long";
 import pako from "pako";
 
 import { createCyberAminoConverters, isMsgSignData, MsgSignData } from "./aminomsgs";
+import {
+  affordableCyberlinks,
+  bandwidthRecoveryHeight,
+  cyberlinksBandwidthCost,
+  InsufficientBandwidthError,
+  remainedBandwidthAt,
+} from "./bandwidthmeter";
 import { MsgCyberlink } from "./codec/cyber/graph/v1beta1/tx";
 // import { Link } from "./codec/cyber/graph/v1beta1/types";
 import {
@@ -90,7 +100,7 @@ import {
   MsgSwapWithinBatch,
   MsgWithdrawWithinBatch,
 } from "./codec/tendermint/liquidity/v1beta1/tx";
-import { CyberClient } from "./cyberclient";
+import { BroadcastTxResponse, CyberClient } from "./cyberclient";
 import {
   MsgBeginRedelegateEncodeObject,
   MsgCreatePoolEncodeObject,
@@ -107,6 +117,21 @@ import {
   MsgVoteEncodeObject,
   MsgWithdrawWithinBatchEncodeObject,
 } from "./encodeobjects";
+import {
+  DesiredEnergyRoute,
+  diffEnergyRoutes,
+  EnergyRoutesDiff,
+  isEmptyEnergyRoutesDiff,
+} from "./energyroutes";
+import { normalizeParticle } from "./particle";
+import { swapMessageFromQuote, SwapQuote } from "./swapquote";
+import {
+  BandwidthParams,
+  bandwidthParamsFromProto,
+  decimalFromDecProto,
+  NeuronBandwidth,
+  neuronBandwidthFromProto,
+} from "./types";
 
 export interface CyberlinkResult {
   readonly logs: readonly logs.Log[];
@@ -151,33 +176,163 @@ export function links(from: string, to: string): Link[] {
   return [link(from, to)];
 }
 
+function uniqueLinks(candidates: readonly Link[]): Link[] {
+  const seen = new Set<string>();
+  return candidates.filter(({ from, to }) => {
+    const key = `${from}\n${to}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export interface CyberlinksOptions {
+  readonly memo?: string;
+  /** Upper bound for the number of links per transaction on top of the max block bandwidth */
+  readonly maxLinksPerTx?: number;
+  /** Drop links the neuron already created, checked with `isLinkExist` */
+  readonly skipExisting?: boolean;
+}
+
+export interface CyberlinksChunkResult {
+  readonly links: readonly Link[];
+  readonly result: BroadcastTxResponse;
+}
+
+export interface CyberlinksResult {
+  readonly chunks: readonly CyberlinksChunkResult[];
+  /** Links that were not sent because they already exist */
+  readonly skipped: readonly Link[];
+  /** Links that were not sent because of missing bandwidth or a failed chunk */
+  readonly pending: readonly Link[];
+}
+
+export interface SyncEnergyRoutesOptions {
+  readonly memo?: string;
+  /** Only compute the changes without broadcasting them */
+  readonly dryRun?: boolean;
+}
+
+export interface SyncEnergyRoutesResult {
+  readonly diff: EnergyRoutesDiff;
+  /** Null for a dry run or if the routes are in sync already */
+  readonly result: BroadcastTxResponse | null;
+}
+
+export interface SwapOptions {
+  /** Share by which the batch price may be worse than the quoted one, defaults to 0.01 */
+  readonly slippage?: number;
+  readonly memo?: string;
+}
+
+export interface SwapResult {
+  readonly quote: SwapQuote;
+  readonly result: BroadcastTxResponse;
+}
+
+function energyRoutesMessages(source: string, diff: EnergyRoutesDiff): EncodeObject[] {
+  // Deletions go first so that the number of routes never exceeds the desired one
+  const deleteMsgs = diff.delete.map(
+    (destination): MsgDeleteRouteEncodeObject => ({
+      typeUrl: "/cyber.grid.v1beta1.MsgDeleteRoute",
+      value: MsgDeleteRoute.fromPartial({ source: source, destination: destination }),
+    }),
+  );
+  const createMsgs = diff.create.map(
+    ({ destination, name }): MsgCreateRouteEncodeObject => ({
+      typeUrl: "/cyber.grid.v1beta1.MsgCreateRoute",
+      value: MsgCreateRoute.fromPartial({ source: source, destination: destination, name: name }),
+    }),
+  );
+  const renameMsgs = diff.rename.map(
+    ({ destination, name }): MsgEditRouteNameEncodeObject => ({
+      typeUrl: "/cyber.grid.v1beta1.MsgEditRouteName",
+      value: MsgEditRouteName.fromPartial({ source: source, destination: destination, name: name }),
+    }),
+  );
+  const editMsgs = diff.edit.map(
+    ({ destination, value }): MsgEditRouteEncodeObject => ({
+      typeUrl: "/cyber.grid.v1beta1.MsgEditRoute",
+      value: MsgEditRoute.fromPartial({ source: source, destination: destination, value: value }),
+    }),
+  );
+  return [...deleteMsgs, ...createMsgs, ...renameMsgs, ...editMsgs];
+}
+
+/** Number of link existence queries sent in parallel */
+const linkExistenceBatchSize = 20;
+
+interface BandwidthState {
+  readonly bandwidth: NeuronBandwidth;
+  readonly params: BandwidthParams;
+  readonly price: string;
+  readonly height: number;
+  readonly remained: number;
+}
+
+function insufficientBandwidthError(
+  { bandwidth, params, height, remained }: BandwidthState,
+  required: number,
+): InsufficientBandwidthError {
+  const recoveryHeight = bandwidthRecoveryHeight(bandwidth, params, height, required);
+  return new InsufficientBandwidthError(
+    recoveryHeight === null
+      ? `Neuron ${bandwidth.neuron} has ${bandwidth.maxValue} max bandwidth but cyberlinks cost ${required}`
+      : `Neuron ${bandwidth.neuron} has ${remained} bandwidth but cyberlinks cost ${required}, recovered at height ${recoveryHeight}`,
+    bandwidth.neuron,
+    required,
+    remained,
+    recoveryHeight,
+  );
+}
+
+/** The message types the default registry of the signing client encodes */
+export const defaultCyberRegistryTypes: ReadonlyArray<[string, GeneratedType]> = [
+  ...defaultRegistryTypes,
+  ["/cosmwasm.wasm.v1beta1.MsgClearAdmin", MsgClearAdmin],
+  ["/cosmwasm.wasm.v1beta1.MsgMigrateContract", MsgMigrateContract],
+  ["/cosmwasm.wasm.v1beta1.MsgUpdateAdmin", MsgUpdateAdmin],
+  ["/cyber.graph.v1beta1.MsgCyberlink", MsgCyberlink],
+  ["/cyber.resources.v1beta1.MsgInvestmint", MsgInvestmint],
+  ["/cyber.grid.v1beta1.MsgCreateRoute", MsgCreateRoute],
+  ["/cyber.grid.v1beta1.MsgEditRoute", MsgEditRoute],
+  ["/cyber.grid.v1beta1.MsgEditRouteName", MsgEditRouteName],
+  ["/cyber.grid.v1beta1.MsgDeleteRoute", MsgDeleteRoute],
+  ["/tendermint.liquidity.v1beta1.MsgSwapWithinBatch", MsgSwapWithinBatch],
+  ["/tendermint.liquidity.v1beta1.MsgDepositWithinBatch", MsgDepositWithinBatch],
+  ["/tendermint.liquidity.v1beta1.MsgWithdrawWithinBatch", MsgWithdrawWithinBatch],
+  ["/tendermint.liquidity.v1beta1.MsgCreatePool", MsgCreatePool],
+  ["/cosmos.gov.v1beta1.MsgDeposit", MsgDeposit],
+  ["/cosmwasm.wasm.v1.MsgExecuteContract", MsgExecuteContract],
+  ["/cosmwasm.wasm.v1.MsgInstantiateContract", MsgInstantiateContract],
+  ["/cosmwasm.wasm.v1.MsgStoreCode", MsgStoreCode],
+];
+
 function createDefaultRegistry(): Registry {
-  return new Registry([
-    ...defaultRegistryTypes,
-    ["/cosmwasm.wasm.v1beta1.MsgClearAdmin", MsgClearAdmin],
-    ["/cosmwasm.wasm.v1beta1.MsgMigrateContract", MsgMigrateContract],
-    ["/cosmwasm.wasm.v1beta1.MsgUpdateAdmin", MsgUpdateAdmin],
-    ["/cyber.graph.v1beta1.MsgCyberlink", MsgCyberlink],
-    ["/cyber.resources.v1beta1.MsgInvestmint", MsgInvestmint],
-    ["/cyber.grid.v1beta1.MsgCreateRoute", MsgCreateRoute],
-    ["/cyber.grid.v1beta1.MsgEditRoute", MsgEditRoute],
-    ["/cyber.grid.v1beta1.MsgEditRouteName", MsgEditRouteName],
-    ["/cyber.grid.v1beta1.MsgDeleteRoute", MsgDeleteRoute],
-    ["/tendermint.liquidity.v1beta1.MsgSwapWithinBatch", MsgSwapWithinBatch],
-    ["/tendermint.liquidity.v1beta1.MsgDepositWithinBatch", MsgDepositWithinBatch],
-    ["/tendermint.liquidity.v1beta1.MsgWithdrawWithinBatch", MsgWithdrawWithinBatch],
-    ["/tendermint.liquidity.v1beta1.MsgCreatePool", MsgCreatePool],
-    ["/cosmos.gov.v1beta1.MsgDeposit", MsgDeposit],
-    ["/cosmwasm.wasm.v1.MsgExecuteContract", MsgExecuteContract],
-    ["/cosmwasm.wasm.v1.MsgInstantiateContract", MsgInstantiateContract],
-    ["/cosmwasm.wasm.v1.MsgStoreCode", MsgStoreCode],
-  ]);
+  return new Registry(defaultCyberRegistryTypes);
+}
+
+/** The amino converters the signing client uses by default, for addresses with the given prefix */
+export function createDefaultAminoConverters(prefix: string): AminoConverters {
+  return {
+    ...createCyberAminoConverters(),
+    ...createWasmAminoConverters(),
+    ...createBankAminoConverters(),
+    ...createDistributionAminoConverters(),
+    ...createStakingAminoConverters(prefix),
+    ...createGovAminoConverters(),
+    ...createIbcAminoConverters(),
+  };
 }
 
 export interface SigningCyberClientOptions {
   readonly registry?: Registry;
   readonly aminoTypes?: AminoTypes;
   readonly prefix?: string;
+  /** Gas price used to calculate the fee when signing methods are called with "auto" or a multiplier */
+  readonly gasPrice?: GasPrice;
+  /** Multiplier applied to the simulated gas when the fee is "auto". Defaults to 1.3. */
+  readonly gasMultiplier?: number;
   readonly broadcastTimeoutMs?: number;
   readonly broadcastPollIntervalMs?: number;
 }
@@ -189,6 +344,8 @@ export class SigningCyberClient extends CyberClient {
 
   private readonly signer: OfflineSigner;
   private readonly aminoTypes: AminoTypes;
+  private readonly gasPrice: GasPrice | undefined;
+  private readonly gasMultiplier: number;
 
   public static async connectWithSigner(
     endpoint: string,
@@ -224,19 +381,13 @@ export class SigningCyberClient extends CyberClient {
     const prefix = options.prefix ?? "bostrom";
     const {
       registry = createDefaultRegistry(),
-      aminoTypes = new AminoTypes({
-        ...createCyberAminoConverters(),
-        ...createWasmAminoConverters(),
-        ...createBankAminoConverters(),
-        ...createDistributionAminoConverters(),
-        ...createStakingAminoConverters(prefix),
-        ...createGovAminoConverters(),
-        ...createIbcAminoConverters(),
-      }),
+      aminoTypes = new AminoTypes(createDefaultAminoConverters(prefix)),
     } = options;
     this.registry = registry;
     this.aminoTypes = aminoTypes;
     this.signer = signer;
+    this.gasPrice = options.gasPrice;
+    this.gasMultiplier = options.gasMultiplier ?? 1.3;
     this.broadcastTimeoutMs = options.broadcastTimeoutMs;
     this.broadcastPollIntervalMs = options.broadcastPollIntervalMs;
   }
@@ -266,20 +417,151 @@ export class SigningCyberClient extends CyberClient {
     neuron: string,
     from: string,
     to: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const cyberlinkMsg: MsgCyberlinkEncodeObject = {
       typeUrl: "/cyber.graph.v1beta1.MsgCyberlink",
       value: MsgCyberlink.fromPartial({
         neuron: neuron,
-        links: links(from, to),
+        links: links(normalizeParticle(from), normalizeParticle(to)),
       }),
     };
 
+    await this.checkCyberlinksBandwidth(neuron, cyberlinkMsg.value.links?.length ?? 0);
     return this.signAndBroadcast(neuron, [cyberlinkMsg], fee, memo);
   }
 
+  /**
+   * Creates the given cyberlinks in as many transactions as needed, so that no transaction
+   * exceeds the max block bandwidth or `options.maxLinksPerTx`.
+   *
+   * Duplicate links are sent once. Links the neuron cannot afford with its remaining bandwidth,
+   * as well as links following a failed chunk, are not sent and returned as `pending`.
+   * Throws an InsufficientBandwidthError if not even a single link can be afforded.
+   */
+  public async cyberlinks(
+    neuron: string,
+    linksToCreate: readonly Link[],
+    fee: StdFee | "auto" | number,
+    options: CyberlinksOptions = {},
+  ): Promise<CyberlinksResult> {
+    const { memo = "", maxLinksPerTx = Number.POSITIVE_INFINITY, skipExisting = false } = options;
+    const unique = uniqueLinks(
+      linksToCreate.map(({ from, to }) => link(normalizeParticle(from), normalizeParticle(to))),
+    );
+    const skipped = skipExisting ? await this.existingLinks(neuron, unique) : [];
+    const toSend = unique.filter((l) => !skipped.includes(l));
+    if (toSend.length === 0) return { chunks: [], skipped: skipped, pending: [] };
+
+    const state = await this.getBandwidthState(neuron);
+    const linksPerTx = Math.min(
+      maxLinksPerTx,
+      affordableCyberlinks(Number(state.params.maxBlockBandwidth), state.price),
+    );
+    if (linksPerTx < 1) {
+      throw new Error(
+        `A single cyberlink exceeds the max block bandwidth of ${state.params.maxBlockBandwidth}`,
+      );
+    }
+    const affordable = affordableCyberlinks(state.remained, state.price);
+    if (affordable < 1) {
+      throw insufficientBandwidthError(state, cyberlinksBandwidthCost(1, state.price));
+    }
+
+    const sendable = toSend.slice(0, affordable);
+    const { accountNumber, sequence } = await this.getSequence(neuron);
+    const chainId = await this.getChainId();
+    const chunks: CyberlinksChunkResult[] = [];
+    for (let start = 0; start < sendable.length; start += linksPerTx) {
+      const chunk = sendable.slice(start, start + linksPerTx);
+      const cyberlinkMsg: MsgCyberlinkEncodeObject = {
+        typeUrl: "/cyber.graph.v1beta1.MsgCyberlink",
+        value: MsgCyberlink.fromPartial({
+          neuron: neuron,
+          links: chunk,
+        }),
+      };
+      // Tracking the sequence here saves an account query per chunk
+      const usedFee = await this.resolveFee(neuron, [cyberlinkMsg], fee, memo);
+      const txRaw = await this.sign(neuron, [cyberlinkMsg], usedFee, memo, {
+        accountNumber: accountNumber,
+        sequence: sequence + chunks.length,
+        chainId: chainId,
+      });
+      const result = await this.broadcastTx(
+        TxRaw.encode(txRaw).finish(),
+        this.broadcastTimeoutMs,
+        this.broadcastPollIntervalMs,
+      );
+      chunks.push({ links: chunk, result: result });
+      if (result.code !== 0) {
+        return { chunks: chunks, skipped: skipped, pending: toSend.slice(start + chunk.length) };
+      }
+    }
+    return { chunks: chunks, skipped: skipped, pending: toSend.slice(sendable.length) };
+  }
+
+  /**
+   * Checks that the neuron can afford a transaction with the given number of cyberlinks
+   * at the current bandwidth price.
+   *
+   * Throws an InsufficientBandwidthError carrying the expected recovery height if it cannot.
+   */
+  public async checkCyberlinksBandwidth(neuron: string, linksCount: number): Promise<void> {
+    const state = await this.getBandwidthState(neuron);
+    const required = cyberlinksBandwidthCost(linksCount, state.price);
+    if (required > Number(state.params.maxBlockBandwidth)) {
+      throw new Error(
+        `Cyberlinks cost ${required} bandwidth which exceeds the max block bandwidth of ${state.params.maxBlockBandwidth}`,
+      );
+    }
+    if (state.remained < required) throw insufficientBandwidthError(state, required);
+  }
+
+  private async getBandwidthState(neuron: string): Promise<BandwidthState> {
+    const client = this.forceGetQueryClient();
+    const [{ neuronBandwidth }, { price }, { params }, height] = await Promise.all([
+      client.bandwidth.account(neuron),
+      client.bandwidth.price(),
+      client.bandwidth.params(),
+      this.getHeight(),
+    ]);
+    assert(params, "bandwidth params missing");
+    const bandwidthParams = bandwidthParamsFromProto(params);
+    const bandwidth = neuronBandwidth
+      ? neuronBandwidthFromProto(neuronBandwidth)
+      : { neuron: neuron, remainedValue: "0", maxValue: "0", lastUpdatedBlock: height };
+    return {
+      bandwidth: bandwidth,
+      params: bandwidthParams,
+      price: decimalFromDecProto(price),
+      height: height,
+      remained: remainedBandwidthAt(bandwidth, bandwidthParams, height),
+    };
+  }
+
+  /** Returns the given links the neuron already created */
+  private async existingLinks(neuron: string, candidates: readonly Link[]): Promise<Link[]> {
+    const existing: Link[] = [];
+    for (let start = 0; start < candidates.length; start += linkExistenceBatchSize) {
+      const batch = candidates.slice(start, start + linkExistenceBatchSize);
+      const exist = await Promise.all(
+        batch.map(async ({ from, to }) => {
+          try {
+            return await this.hasLink(from, to, neuron);
+          } catch (error) {
+            // Particles that are not in the graph yet cannot be linked already
+            if (/not found/i.test(String(error))) return false;
+            throw error;
+          }
+        }),
+      );
+      existing.push(...batch.filter((_, i) => exist[i]));
+    }
+    return existing;
+  }
+
   // Resources module
 
   public async investmint(
@@ -287,9 +569,9 @@ export class SigningCyberClient extends CyberClient {
     amount: Coin,
     resource: string,
     length: number,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const investmintMsg: MsgInvestmintEncodeObject = {
       typeUrl: "/cyber.resources.v1beta1.MsgInvestmint",
       value: MsgInvestmint.fromPartial({
@@ -299,6 +581,10 @@ export class SigningCyberClient extends CyberClient {
         length: Long.fromString(new Uint53(length).toString()),
       }),
     };
+    const { maxSlots, free } = await this.getInvestmintSlots(senderAddress);
+    if (free < 1) {
+      throw new Error(`Neuron ${senderAddress} has no free investmint slot, all ${maxSlots} are in use`);
+    }
     return this.signAndBroadcast(senderAddress, [investmintMsg], fee, memo);
   }
 
@@ -308,9 +594,9 @@ export class SigningCyberClient extends CyberClient {
     senderAddress: string,
     destination: string,
     name: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const createEnergyRouteMsg: MsgCreateRouteEncodeObject = {
       typeUrl: "/cyber.grid.v1beta1.MsgCreateRoute",
       value: MsgCreateRoute.fromPartial({
@@ -326,9 +612,9 @@ export class SigningCyberClient extends CyberClient {
     senderAddress: string,
     destination: string,
     value: Coin,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const editEnergyRouteMsg: MsgEditRouteEncodeObject = {
       typeUrl: "/cyber.grid.v1beta1.MsgEditRoute",
       value: MsgEditRoute.fromPartial({
@@ -343,9 +629,9 @@ export class SigningCyberClient extends CyberClient {
   public async deleteEnergyRoute(
     senderAddress: string,
     destination: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const deleteEnergyRouteMsg: MsgDeleteRouteEncodeObject = {
       typeUrl: "/cyber.grid.v1beta1.MsgDeleteRoute",
       value: MsgDeleteRoute.fromPartial({
@@ -360,9 +646,9 @@ export class SigningCyberClient extends CyberClient {
     senderAddress: string,
     destination: string,
     name: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const editEnergyRouteNameMsg: MsgEditRouteNameEncodeObject = {
       typeUrl: "/cyber.grid.v1beta1.MsgEditRouteName",
       value: MsgEditRouteName.fromPartial({
@@ -375,15 +661,36 @@ export class SigningCyberClient extends CyberClient {
     return this.signAndBroadcast(senderAddress, [editEnergyRouteNameMsg], fee, memo);
   }
 
+  /**
+   * Brings the routes of `source` in line with `desiredRoutes` in a single transaction
+   * with the minimal create, rename, edit and delete messages. Routes not listed are deleted.
+   */
+  public async syncEnergyRoutes(
+    source: string,
+    desiredRoutes: readonly DesiredEnergyRoute[],
+    fee: StdFee | "auto" | number,
+    options: SyncEnergyRoutesOptions = {},
+  ): Promise<SyncEnergyRoutesResult> {
+    const { memo = "", dryRun = false } = options;
+    const [currentRoutes, { maxRoutes }] = await Promise.all([
+      this.getSourceRoutes(source),
+      this.getGridParams(),
+    ]);
+    const diff = diffEnergyRoutes(currentRoutes, desiredRoutes, maxRoutes);
+    if (dryRun || isEmptyEnergyRoutesDiff(diff)) return { diff: diff, result: null };
+    const result = await this.signAndBroadcast(source, energyRoutesMessages(source, diff), fee, memo);
+    return { diff: diff, result: result };
+  }
+
   // Wasm module
 
   /** Uploads code and returns a receipt, including the code ID */
   public async upload(
     senderAddress: string,
     wasmCode: Uint8Array,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const compressed = pako.gzip(wasmCode, { level: 9 });
     const storeCodeMsg: MsgStoreCodeEncodeObject = {
       typeUrl: "/cosmwasm.wasm.v1.MsgStoreCode",
@@ -401,9 +708,9 @@ export class SigningCyberClient extends CyberClient {
     codeId: number,
     msg: Record<string, unknown>,
     label: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     options: InstantiateOptions = {},
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const instantiateContractMsg: MsgInstantiateContractEncodeObject = {
       typeUrl: "/cosmwasm.wasm.v1.MsgInstantiateContract",
       value: MsgInstantiateContract.fromPartial({
@@ -422,9 +729,9 @@ export class SigningCyberClient extends CyberClient {
     senderAddress: string,
     contractAddress: string,
     newAdmin: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const updateAdminMsg: MsgUpdateAdminEncodeObject = {
       typeUrl: "/cosmwasm.wasm.v1.MsgUpdateAdmin",
       value: MsgUpdateAdmin.fromPartial({
@@ -439,9 +746,9 @@ export class SigningCyberClient extends CyberClient {
   public async clearAdmin(
     senderAddress: string,
     contractAddress: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const clearAdminMsg: MsgClearAdminEncodeObject = {
       typeUrl: "/cosmwasm.wasm.v1.MsgClearAdmin",
       value: MsgClearAdmin.fromPartial({
@@ -457,9 +764,9 @@ export class SigningCyberClient extends CyberClient {
     contractAddress: string,
     codeId: number,
     migrateMsg: Record<string, unknown>,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const migrateContractMsg: MsgMigrateContractEncodeObject = {
       typeUrl: "/cosmwasm.wasm.v1.MsgMigrateContract",
       value: MsgMigrateContract.fromPartial({
@@ -476,10 +783,10 @@ export class SigningCyberClient extends CyberClient {
     senderAddress: string,
     contractAddress: string,
     msg: Record<string, unknown>,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
     funds?: readonly Coin[],
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const executeContractMsg: MsgExecuteContractEncodeObject = {
       typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract",
       value: MsgExecuteContract.fromPartial({
@@ -497,10 +804,10 @@ export class SigningCyberClient extends CyberClient {
     senderAddress: string,
     contractAddress: string,
     msg: string[],
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
     funds?: readonly Coin[],
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const msgs = msg.map((item) => ({
       typeUrl: "/cosmwasm.wasm.v1.MsgExecuteContract",
       value: MsgExecuteContract.fromPartial({
@@ -520,9 +827,9 @@ export class SigningCyberClient extends CyberClient {
     senderAddress: string,
     recipientAddress: string,
     amount: readonly Coin[],
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const sendMsg: MsgSendEncodeObject = {
       typeUrl: "/cosmos.bank.v1beta1.MsgSend",
       value: {
@@ -540,9 +847,9 @@ export class SigningCyberClient extends CyberClient {
     delegatorAddress: string,
     validatorAddress: string,
     amount: Coin,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const delegateMsg: MsgDelegateEncodeObject = {
       typeUrl: "/cosmos.staking.v1beta1.MsgDelegate",
       value: MsgDelegate.fromPartial({
@@ -559,9 +866,9 @@ export class SigningCyberClient extends CyberClient {
     validatorSrcAddress: string,
     validatorDstAddress: string,
     amount: Coin,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const redelegateMsg: MsgBeginRedelegateEncodeObject = {
       typeUrl: "/cosmos.staking.v1beta1.MsgBeginRedelegate",
       value: MsgBeginRedelegate.fromPartial({
@@ -578,9 +885,9 @@ export class SigningCyberClient extends CyberClient {
     delegatorAddress: string,
     validatorAddress: string,
     amount: Coin,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const undelegateMsg: MsgUndelegateEncodeObject = {
       typeUrl: "/cosmos.staking.v1beta1.MsgUndelegate",
       value: MsgUndelegate.fromPartial({
@@ -595,9 +902,9 @@ export class SigningCyberClient extends CyberClient {
   public async withdrawRewards(
     delegatorAddress: string,
     validatorAddress: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const withdrawDelegatorRewardMsg: MsgWithdrawDelegatorRewardEncodeObject = {
       typeUrl: "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward",
       value: MsgWithdrawDelegatorReward.fromPartial({ delegatorAddress: delegatorAddress, validatorAddress }),
@@ -608,9 +915,9 @@ export class SigningCyberClient extends CyberClient {
   public async withdrawAllRewards(
     delegatorAddress: string,
     validatorAddresses: string[],
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const msgs = validatorAddresses.map((validatorAddress) => {
       return {
         typeUrl: "/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward",
@@ -630,9 +937,9 @@ export class SigningCyberClient extends CyberClient {
     voter: string,
     proposalId: number,
     option: number,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const voteMsg: MsgVoteEncodeObject = {
       typeUrl: "/cosmos.gov.v1beta1.MsgVote",
       value: MsgVote.fromPartial({
@@ -648,9 +955,9 @@ export class SigningCyberClient extends CyberClient {
     proposer: string,
     content: JsonObject,
     initialDeposit: Coin[],
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const sumbitProposalMsg: MsgSubmitProposalEncodeObject = {
       typeUrl: "/cosmos.gov.v1beta1.MsgSubmitProposal",
       value: MsgSubmitProposal.fromPartial({
@@ -669,9 +976,9 @@ export class SigningCyberClient extends CyberClient {
     depositor: string,
     proposalId: number,
     amount: Coin[],
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const depositMsg: MsgDepositEncodeObject = {
       typeUrl: "/cosmos.gov.v1beta1.MsgDeposit",
       value: MsgDeposit.fromPartial({
@@ -694,9 +1001,9 @@ export class SigningCyberClient extends CyberClient {
     timeoutHeight: Height | undefined,
     /** timeout in seconds */
     timeoutTimestamp: number | undefined,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const timeoutTimestampNanoseconds = timeoutTimestamp
       ? Long.fromNumber(timeoutTimestamp).multiply(1_000_000_000)
       : undefined;
@@ -725,9 +1032,9 @@ export class SigningCyberClient extends CyberClient {
     demandCoinDenom: string,
     offerCoinFee: Coin,
     orderPrice: string,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const swapWithinBatchMsg: MsgSwapWithinBatchEncodeObject = {
       typeUrl: "/tendermint.liquidity.v1beta1.MsgSwapWithinBatch",
       value: MsgSwapWithinBatch.fromPartial({
@@ -744,13 +1051,44 @@ export class SigningCyberClient extends CyberClient {
     return this.signAndBroadcast(swapRequesterAddress, [swapWithinBatchMsg], fee, memo);
   }
 
+  /**
+   * Swaps `amount` of the first denom of `pair` into the second one, filling the order price
+   * and offer coin fee from a quote of their pool.
+   *
+   * Throws if the amount exceeds the pool's maximum order amount.
+   */
+  public async swap(
+    swapRequesterAddress: string,
+    pair: readonly [string, string],
+    amount: string,
+    fee: StdFee | "auto" | number,
+    options: SwapOptions = {},
+  ): Promise<SwapResult> {
+    const { slippage, memo = "" } = options;
+    const [offerDenom, demandDenom] = pair;
+    const offerCoin = { denom: offerDenom, amount: amount };
+    const quote = await this.getSwapQuote(offerCoin, demandDenom, slippage);
+    if (Decimal.fromAtomics(amount, 0).isGreaterThan(Decimal.fromAtomics(quote.maxOfferAmount, 0))) {
+      throw new Error(
+        `Swap of ${amount}${offerDenom} exceeds the maximum order amount of ${quote.maxOfferAmount}${offerDenom} in pool ${quote.poolId}`,
+      );
+    }
+    const result = await this.signAndBroadcast(
+      swapRequesterAddress,
+      [swapMessageFromQuote(swapRequesterAddress, quote)],
+      fee,
+      memo,
+    );
+    return { quote: quote, result: result };
+  }
+
   public async depositWithinBatch(
     depositorAddress: string,
     poolId: number,
     depositCoins: Coin[],
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const depositWithinBatchMsg: MsgDepositWithinBatchEncodeObject = {
       typeUrl: "/tendermint.liquidity.v1beta1.MsgDepositWithinBatch",
       value: MsgDepositWithinBatch.fromPartial({
@@ -767,9 +1105,9 @@ export class SigningCyberClient extends CyberClient {
     withdrawerAddress: string,
     poolId: number,
     poolCoin: Coin,
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const withdrawWithinBatchMsg: MsgWithdrawWithinBatchEncodeObject = {
       typeUrl: "/tendermint.liquidity.v1beta1.MsgWithdrawWithinBatch",
       value: MsgWithdrawWithinBatch.fromPartial({
@@ -786,9 +1124,9 @@ export class SigningCyberClient extends CyberClient {
     poolCreatorAddress: string,
     poolTypeId: number,
     depositCoins: Coin[],
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
+  ): Promise<BroadcastTxResponse> {
     const createPoolMsg: MsgCreatePoolEncodeObject = {
       typeUrl: "/tendermint.liquidity.v1beta1.MsgCreatePool",
       value: MsgCreatePool.fromPartial({
@@ -806,18 +1144,36 @@ export class SigningCyberClient extends CyberClient {
    *
    * @param signerAddress The address that will sign transactions using this instance. The signer must be able to sign with this address.
    * @param messages
-   * @param fee
+   * @param fee A fixed fee, or "auto" or a gas multiplier to calculate it from a simulation and the configured gas price
    * @param memo
    */
   public async signAndBroadcast(
     signerAddress: string,
     messages: readonly EncodeObject[],
-    fee: StdFee,
+    fee: StdFee | "auto" | number,
     memo = "",
-  ): Promise<DeliverTxResponse> {
-    const txRaw = await this.sign(signerAddress, messages, fee, memo);
+  ): Promise<BroadcastTxResponse> {
+    const usedFee = await this.resolveFee(signerAddress, messages, fee, memo);
+    const txRaw = await this.sign(signerAddress, messages, usedFee, memo);
     const txBytes = TxRaw.encode(txRaw).finish();
-    return this.broadcastTx(txBytes);
+    return this.broadcastTx(txBytes, this.broadcastTimeoutMs, this.broadcastPollIntervalMs);
+  }
+
+  /**
+   * Returns the given fee if it is a StdFee. Otherwise simulates the messages and calculates the fee
+   * from the used gas, multiplied by the given number or the configured multiplier for "auto".
+   */
+  private async resolveFee(
+    signerAddress: string,
+    messages: readonly EncodeObject[],
+    fee: StdFee | "auto" | number,
+    memo: string,
+  ): Promise<StdFee> {
+    if (fee !== "auto" && typeof fee !== "number") return fee;
+    assertDefined(this.gasPrice, "Gas price must be set in the client options when auto gas is used.");
+    const gasEstimation = await this.simulate(signerAddress, messages, memo);
+    const multiplier = typeof fee === "number" ? fee : this.gasMultiplier;
+    return calculateFee(Math.round(gasEstimation * multiplier), this.gasPrice);
   }
 
   public async sign(
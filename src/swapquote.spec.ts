@@ -0,0 +1,96 @@
+import { calculateOfferCoinFee, quoteSwap, swapMessageFromQuote, toDecimalString } from "./swapquote";
+import { LiquidityParams, Pool } from "./types";
+
+const pool: Pool = {
+  id: 5,
+  typeId: 1,
+  reserveCoinDenoms: ["boot", "hydrogen"],
+  reserveAccountAddress: "bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm",
+  poolCoinDenom: "pool5",
+};
+
+const reserves = [
+  { denom: "boot", amount: "1000000" },
+  { denom: "hydrogen", amount: "2000000" },
+];
+
+const params: LiquidityParams = {
+  minInitDepositAmount: "1000000",
+  initPoolCoinMintAmount: "1000000",
+  maxReserveCoinAmount: "0",
+  poolCreationFee: [{ denom: "boot", amount: "40000000" }],
+  swapFeeRate: "0.003",
+  withdrawFeeRate: "0.003",
+  maxOrderAmountRatio: "0.1",
+  unitBatchHeight: 1,
+  circuitBreakerEnabled: false,
+};
+
+describe("calculateOfferCoinFee", () => {
+  it("reserves half of the swap fee, rounded up", () => {
+    const fee = (amount: string): string =>
+      calculateOfferCoinFee({ denom: "boot", amount: amount }, "0.003").amount;
+    expect(fee("1")).toEqual("1");
+    expect(fee("1000")).toEqual("2");
+    expect(fee("2000")).toEqual("3");
+    expect(fee("3333")).toEqual("5");
+    expect(fee("10000")).toEqual("15");
+  });
+
+  it("reserves nothing without a swap fee", () => {
+    expect(calculateOfferCoinFee({ denom: "boot", amount: "10000" }, "0")).toEqual({
+      denom: "boot",
+      amount: "0",
+    });
+  });
+});
+
+describe("quoteSwap", () => {
+  it("quotes the output of an order alone in its batch, net of the swap fee", () => {
+    const quote = quoteSwap(pool, reserves, params, { denom: "boot", amount: "10000" }, "hydrogen");
+    // 10000 * 2000000 / 1010000 * (1 - 0.0015) is 19772.28
+    expect(quote.expectedOutput).toEqual({ denom: "hydrogen", amount: "19772" });
+    expect(quote.offerCoinFee).toEqual({ denom: "boot", amount: "15" });
+    expect(quote.poolPrice).toEqual("0.5");
+    expect(quote.swapPrice).toEqual("0.505");
+    expect(quote.orderPrice).toEqual("0.51005");
+  });
+
+  it("limits the offer to maxOrderAmountRatio of the offered reserve", () => {
+    expect(
+      quoteSwap(pool, reserves, params, { denom: "boot", amount: "1" }, "hydrogen").maxOfferAmount,
+    ).toEqual("100000");
+    expect(
+      quoteSwap(pool, reserves, params, { denom: "hydrogen", amount: "1" }, "boot").maxOfferAmount,
+    ).toEqual("200000");
+  });
+
+  it("rejects denoms the pool does not swap and pools without reserves", () => {
+    expect(() => quoteSwap(pool, reserves, params, { denom: "boot", amount: "1" }, "tocyb")).toThrowError(
+      /does not swap/,
+    );
+    expect(() =>
+      quoteSwap(pool, [reserves[0]], params, { denom: "boot", amount: "1" }, "hydrogen"),
+    ).toThrowError(/no reserves/);
+  });
+
+  it("encodes the order price of the swap message as sdk.Dec atomics", () => {
+    const quote = quoteSwap(pool, reserves, params, { denom: "boot", amount: "10000" }, "hydrogen");
+    expect(
+      swapMessageFromQuote("bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm", quote).value.orderPrice,
+    ).toEqual("510050000000000000");
+  });
+});
+
+describe("toDecimalString", () => {
+  it("formats prices without exponents", () => {
+    expect(toDecimalString(1e25)).toEqual("10000000000000000000000000");
+    expect(toDecimalString(1.5e-7)).toEqual("0.00000015");
+  });
+
+  it("rejects prices that are not positive or too small for sdk.Dec", () => {
+    expect(() => toDecimalString(0)).toThrowError(/not a positive number/);
+    expect(() => toDecimalString(NaN)).toThrowError(/not a positive number/);
+    expect(() => toDecimalString(3e-19)).toThrowError(/too small/);
+  });
+});
@@ -0,0 +1,187 @@
+import { Decimal, Uint32, Uint53, Uint64 } from "@cosmjs/math";
+import { Coin } from "@cosmjs/stargate";
+import Long from "long";
+
+import { MsgSwapWithinBatch } from "./codec/tendermint/liquidity/v1beta1/tx";
+import { MsgSwapWithinBatchEncodeObject } from "./encodeobjects";
+import { LiquidityParams, Pool } from "./types";
+
+/** The liquidity module only supports instant swaps, which have type 1 */
+export const instantSwapTypeId = 1;
+
+/** Number of fractional digits of the sdk.Dec type */
+const decFractionalDigits = 18;
+
+export interface SwapQuote {
+  readonly poolId: number;
+  readonly offerCoin: Coin;
+  /** Half of the swap fee, reserved from the requester's balance on top of the offer coin */
+  readonly offerCoinFee: Coin;
+  /** Demand coin the order receives if it is alone in the batch, net of the other half of the swap fee */
+  readonly expectedOutput: Coin;
+  /** Pool price as reserve of the first reserve coin denom per reserve of the second, as decimal string */
+  readonly poolPrice: string;
+  /** Batch swap price if the order is alone in the batch, in the unit of `poolPrice` */
+  readonly swapPrice: string;
+  /** Share of the output lost because the order moves the price, between 0 and 1 */
+  readonly priceImpact: number;
+  /** Worst price the order accepts given the slippage, in the unit of `poolPrice` */
+  readonly orderPrice: string;
+  /** Largest offer amount the pool accepts in a single order */
+  readonly maxOfferAmount: string;
+}
+
+/** Rounds a non-negative decimal up to the next integer */
+function ceilDecimal(value: Decimal): string {
+  const [whole, fraction = ""] = value.toString().split(".");
+  return /[1-9]/.test(fraction) ? Decimal.fromAtomics(whole, 0).plus(Decimal.one(0)).toString() : whole;
+}
+
+function floorDecimal(value: Decimal): string {
+  return value.toString().split(".")[0];
+}
+
+/** Divides two non-negative integers given as decimal strings, rounding down */
+export function divideIntegers(dividend: string, divisor: string): string {
+  const divisorDecimal = Decimal.fromAtomics(divisor, 0);
+  if (divisorDecimal.atomics === "0") throw new Error("Division by zero");
+  const ten = new Uint32(10);
+  let quotient = "";
+  let remainder = Decimal.zero(0);
+  for (const digit of dividend) {
+    remainder = remainder.multiply(ten).plus(Decimal.fromAtomics(digit, 0));
+    let quotientDigit = 0;
+    while (remainder.isGreaterThanOrEqual(divisorDecimal)) {
+      remainder = remainder.minus(divisorDecimal);
+      quotientDigit++;
+    }
+    quotient += quotientDigit.toString();
+  }
+  return quotient.replace(/^0+(?=\d)/, "");
+}
+
+/**
+ * Formats a positive price as decimal string with the 15 significant digits a double holds,
+ * truncated to the 18 fractional digits of sdk.Dec. Throws if the price is not finite, not positive
+ * or too small to be expressed, since a zero order price would accept any price.
+ */
+export function toDecimalString(value: number): string {
+  if (!Number.isFinite(value) || value <= 0) throw new Error(`Price ${value} is not a positive number`);
+  // toExponential never switches notation, unlike toFixed for values of 1e21 and above
+  const [mantissa, exponentText] = value.toExponential(14).split("e");
+  const digits = mantissa.replace(".", "");
+  const exponent = Number(exponentText);
+  const whole = exponent >= 0 ? digits.slice(0, exponent + 1).padEnd(exponent + 1, "0") : "0";
+  const fraction = (exponent >= 0 ? digits.slice(exponent + 1) : "0".repeat(-exponent - 1) + digits).slice(
+    0,
+    decFractionalDigits,
+  );
+  const price = Decimal.fromUserInput(fraction ? `${whole}.${fraction}` : whole, decFractionalDigits);
+  if (price.atomics === "0") throw new Error(`Price ${value} is too small to be expressed as sdk.Dec`);
+  return price.toString();
+}
+
+/**
+ * Computes the offer coin fee the chain expects for a swap order, which is half of the swap fee
+ * rounded up: ceil(offerCoin.amount * swapFeeRate / 2).
+ */
+export function calculateOfferCoinFee(offerCoin: Coin, swapFeeRate: string): Coin {
+  const fee = Decimal.fromUserInput(swapFeeRate, decFractionalDigits).multiply(
+    Uint64.fromString(offerCoin.amount),
+  );
+  // ceil(ceil(x) / 2) equals ceil(x / 2), and an integer is halved exactly with one fractional digit
+  const halved = Decimal.fromAtomics(ceilDecimal(fee), 1).multiply(new Uint32(5));
+  return { denom: offerCoin.denom, amount: ceilDecimal(halved) };
+}
+
+/**
+ * Quotes a swap of `offerCoin` into `demandCoinDenom` against the pool's current reserves.
+ *
+ * Orders are matched per batch at a single swap price, so the quote is exact only if the order
+ * is alone in its batch. `slippage` is the share by which the batch price may be worse than
+ * the quoted swap price before the order is not executed.
+ */
+export function quoteSwap(
+  pool: Pool,
+  reserves: readonly Coin[],
+  params: LiquidityParams,
+  offerCoin: Coin,
+  demandCoinDenom: string,
+  slippage = 0.01,
+): SwapQuote {
+  const [firstDenom, secondDenom] = pool.reserveCoinDenoms;
+  const pair = [offerCoin.denom, demandCoinDenom].sort();
+  if (pair[0] !== firstDenom || pair[1] !== secondDenom) {
+    throw new Error(`Pool ${pool.id} does not swap ${offerCoin.denom} to ${demandCoinDenom}`);
+  }
+  if (slippage < 0 || slippage >= 1) throw new Error("Slippage must be at least 0 and below 1");
+  const reserveOf = (denom: string): string =>
+    reserves.find((reserve) => reserve.denom === denom)?.amount ?? "0";
+  const offerReserve = reserveOf(offerCoin.denom);
+  const demandReserve = reserveOf(demandCoinDenom);
+  if (offerReserve === "0" || demandReserve === "0") throw new Error(`Pool ${pool.id} has no reserves`);
+
+  // output = offer * demandReserve / (offerReserve + offer) * (1 - swapFeeRate / 2), computed exactly as
+  // offer * demandReserve * (2 - swapFeeRate) / (2 * (offerReserve + offer)) and rounded down
+  const feeFactor = Decimal.fromUserInput("2", decFractionalDigits).minus(
+    Decimal.fromUserInput(params.swapFeeRate, decFractionalDigits),
+  );
+  const outputNumerator = Decimal.fromAtomics(feeFactor.atomics, 0)
+    .multiply(Uint64.fromString(offerCoin.amount))
+    .multiply(Uint64.fromString(demandReserve));
+  const outputDenominator = Decimal.fromAtomics(offerReserve, 0)
+    .plus(Decimal.fromAtomics(offerCoin.amount, 0))
+    .multiply(Uint64.fromString(Decimal.fromUserInput("2", decFractionalDigits).atomics));
+  const output = divideIntegers(outputNumerator.atomics, outputDenominator.atomics);
+
+  // Prices and the price impact are estimates, doubles are precise enough for them
+  const offered = Number(offerCoin.amount);
+  const offerReserveAmount = Number(offerReserve);
+  const demandReserveAmount = Number(demandReserve);
+  // Prices are quoted as first per second denom, i.e. offer per demand when offering the first denom
+  const offersFirst = offerCoin.denom === firstDenom;
+  const poolPrice = offersFirst
+    ? offerReserveAmount / demandReserveAmount
+    : demandReserveAmount / offerReserveAmount;
+  const swapPrice = offersFirst
+    ? (offerReserveAmount + offered) / demandReserveAmount
+    : demandReserveAmount / (offerReserveAmount + offered);
+  // Offering the first denom buys the second, so a higher price is worse, and vice versa
+  const orderPrice = offersFirst ? swapPrice * (1 + slippage) : swapPrice * (1 - slippage);
+
+  return {
+    poolId: pool.id,
+    offerCoin: offerCoin,
+    offerCoinFee: calculateOfferCoinFee(offerCoin, params.swapFeeRate),
+    expectedOutput: { denom: demandCoinDenom, amount: output },
+    poolPrice: toDecimalString(poolPrice),
+    swapPrice: toDecimalString(swapPrice),
+    priceImpact: offered / (offerReserveAmount + offered),
+    orderPrice: toDecimalString(orderPrice),
+    maxOfferAmount: floorDecimal(
+      Decimal.fromUserInput(params.maxOrderAmountRatio, decFractionalDigits).multiply(
+        Uint64.fromString(offerReserve),
+      ),
+    ),
+  };
+}
+
+/** Builds the swap order of a quote, with the order price encoded as the message expects it */
+export function swapMessageFromQuote(
+  swapRequesterAddress: string,
+  quote: SwapQuote,
+): MsgSwapWithinBatchEncodeObject {
+  return {
+    typeUrl: "/tendermint.liquidity.v1beta1.MsgSwapWithinBatch",
+    value: MsgSwapWithinBatch.fromPartial({
+      swapRequesterAddress: swapRequesterAddress,
+      poolId: Long.fromString(new Uint53(quote.poolId).toString()),
+      swapTypeId: instantSwapTypeId,
+      offerCoin: quote.offerCoin,
+      demandCoinDenom: quote.expectedOutput.denom,
+      offerCoinFee: quote.offerCoinFee,
+      // sdk.Dec fields are sent as atomics
+      orderPrice: Decimal.fromUserInput(quote.orderPrice, decFractionalDigits).atomics,
+    }),
+  };
+}
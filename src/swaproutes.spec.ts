@@ -0,0 +1,63 @@
+import { findSwapRoutes, PoolReserves } from "./swaproutes";
+import { LiquidityParams } from "./types";
+
+const params: LiquidityParams = {
+  minInitDepositAmount: "1000000",
+  initPoolCoinMintAmount: "1000000",
+  maxReserveCoinAmount: "0",
+  poolCreationFee: [{ denom: "boot", amount: "40000000" }],
+  swapFeeRate: "0.003",
+  withdrawFeeRate: "0.003",
+  maxOrderAmountRatio: "0.1",
+  unitBatchHeight: 1,
+  circuitBreakerEnabled: false,
+};
+
+function pool(id: number, first: [string, string], second: [string, string]): PoolReserves {
+  return {
+    pool: {
+      id: id,
+      typeId: 1,
+      reserveCoinDenoms: [first[0], second[0]],
+      reserveAccountAddress: "bostrom1qyqszqgpqyqszqgpqyqszqgpqyqszqgp3q4dnm",
+      poolCoinDenom: `pool${id}`,
+    },
+    reserves: [
+      { denom: first[0], amount: first[1] },
+      { denom: second[0], amount: second[1] },
+    ],
+  };
+}
+
+const pools = [
+  pool(1, ["boot", "1000000"], ["hydrogen", "1000000"]),
+  pool(2, ["hydrogen", "1000000"], ["tocyb", "4000000"]),
+  // The direct pool is shallow and priced worse than the route through hydrogen
+  pool(3, ["boot", "100000"], ["tocyb", "200000"]),
+];
+
+describe("findSwapRoutes", () => {
+  it("lists the routes best expected output first, each hop offering what the previous returns", () => {
+    const routes = findSwapRoutes(pools, params, { denom: "boot", amount: "5000" }, "tocyb");
+    expect(routes.map(({ hops }) => hops.map(({ poolId }) => poolId))).toEqual([[1, 2], [3]]);
+    const [viaHydrogen, direct] = routes;
+    expect(Number(viaHydrogen.expectedOutput.amount)).toBeGreaterThan(Number(direct.expectedOutput.amount));
+    const [first, second] = viaHydrogen.hops;
+    expect(second.offerCoin.denom).toEqual("hydrogen");
+    expect(Number(second.offerCoin.amount) + Number(second.offerCoinFee.amount)).toBeLessThanOrEqual(
+      Number(first.expectedOutput.amount),
+    );
+    expect(viaHydrogen.expectedOutput).toEqual(second.expectedOutput);
+  });
+
+  it("leaves out routes on which an order exceeds the maximum order amount", () => {
+    // 20000 boot is more than a tenth of the boot reserve of the direct pool
+    const routes = findSwapRoutes(pools, params, { denom: "boot", amount: "20000" }, "tocyb");
+    expect(routes.map(({ hops }) => hops.map(({ poolId }) => poolId))).toEqual([[1, 2]]);
+  });
+
+  it("respects maxHops", () => {
+    const routes = findSwapRoutes(pools, params, { denom: "boot", amount: "5000" }, "tocyb", 1);
+    expect(routes.map(({ hops }) => hops.map(({ poolId }) => poolId))).toEqual([[3]]);
+  });
+});
@@ -0,0 +1,128 @@
+import { Coin } from "@cosmjs/stargate";
+
+import { MsgSwapWithinBatchEncodeObject } from "./encodeobjects";
+import { calculateOfferCoinFee, quoteSwap, swapMessageFromQuote, SwapQuote } from "./swapquote";
+import { LiquidityParams, Pool } from "./types";
+
+export interface PoolReserves {
+  readonly pool: Pool;
+  readonly reserves: readonly Coin[];
+}
+
+export interface SwapRoute {
+  /** Quotes of the swaps in execution order, each offering what the previous one is expected to return */
+  readonly hops: readonly SwapQuote[];
+  readonly offerCoin: Coin;
+  readonly expectedOutput: Coin;
+  /** Share of the output lost because the orders move the prices, between 0 and 1 */
+  readonly priceImpact: number;
+}
+
+/**
+ * Returns the largest amount that can be offered out of `balance`,
+ * given that the offer coin fee is reserved on top of the offer.
+ */
+function affordableOffer(balance: string, swapFeeRate: string): string {
+  const available = Number(balance);
+  let amount = Math.floor(available / (1 + Number(swapFeeRate) / 2));
+  while (
+    amount > 0 &&
+    amount + Number(calculateOfferCoinFee({ denom: "", amount: amount.toString() }, swapFeeRate).amount) >
+      available
+  ) {
+    amount--;
+  }
+  return amount.toString();
+}
+
+/** Quotes the swaps along the given pools, or returns null if an order would be rejected or return nothing */
+function quoteHops(
+  path: readonly PoolReserves[],
+  params: LiquidityParams,
+  offerCoin: Coin,
+  slippage: number | undefined,
+): SwapQuote[] | null {
+  const hops: SwapQuote[] = [];
+  let offer = offerCoin;
+  for (const { pool, reserves } of path) {
+    const demandCoinDenom = pool.reserveCoinDenoms.find((denom) => denom !== offer.denom) as string;
+    const quote = quoteSwap(pool, reserves, params, offer, demandCoinDenom, slippage);
+    if (
+      Number(quote.offerCoin.amount) > Number(quote.maxOfferAmount) ||
+      quote.expectedOutput.amount === "0"
+    ) {
+      return null;
+    }
+    hops.push(quote);
+    offer = {
+      denom: demandCoinDenom,
+      amount: affordableOffer(quote.expectedOutput.amount, params.swapFeeRate),
+    };
+  }
+  return hops;
+}
+
+/**
+ * Finds the routes of up to `maxHops` swaps that turn `offerCoin` into `demandCoinDenom`,
+ * best expected output first. Routes visit every denom at most once, and routes on which
+ * an order would exceed the pool's maximum order amount are left out.
+ *
+ * Every hop after the first offers what the previous one is expected to return, minus
+ * the offer coin fee it needs to reserve on top.
+ */
+export function findSwapRoutes(
+  pools: readonly PoolReserves[],
+  params: LiquidityParams,
+  offerCoin: Coin,
+  demandCoinDenom: string,
+  maxHops = 3,
+  slippage?: number,
+): SwapRoute[] {
+  const poolsByDenom = new Map<string, PoolReserves[]>();
+  for (const entry of pools) {
+    const { reserveCoinDenoms } = entry.pool;
+    const hasReserves = reserveCoinDenoms.every((denom) =>
+      entry.reserves.some((reserve) => reserve.denom === denom && !/^0*$/.test(reserve.amount)),
+    );
+    if (reserveCoinDenoms.length !== 2 || !hasReserves) continue;
+    for (const denom of reserveCoinDenoms) {
+      poolsByDenom.set(denom, [...(poolsByDenom.get(denom) ?? []), entry]);
+    }
+  }
+
+  const routes: SwapRoute[] = [];
+  const visit = (denom: string, path: readonly PoolReserves[], visited: ReadonlySet<string>): void => {
+    if (denom === demandCoinDenom) {
+      const hops = quoteHops(path, params, offerCoin, slippage);
+      if (!hops) return;
+      routes.push({
+        hops: hops,
+        offerCoin: offerCoin,
+        expectedOutput: hops[hops.length - 1].expectedOutput,
+        priceImpact: 1 - hops.reduce((kept, { priceImpact }) => kept * (1 - priceImpact), 1),
+      });
+      return;
+    }
+    if (path.length >= maxHops) return;
+    for (const entry of poolsByDenom.get(denom) ?? []) {
+      const next = entry.pool.reserveCoinDenoms.find((candidate) => candidate !== denom) as string;
+      if (!visited.has(next)) visit(next, [...path, entry], new Set([...visited, next]));
+    }
+  };
+  visit(offerCoin.denom, [], new Set([offerCoin.denom]));
+  return routes.sort(
+    (a, b) =>
+      Number(b.expectedOutput.amount) - Number(a.expectedOutput.amount) || a.hops.length - b.hops.length,
+  );
+}
+
+/**
+ * Builds one swap order per hop of the route. Each order can only be sent once the previous one
+ * has executed, and its offer should be adjusted to what the previous order actually returned.
+ */
+export function swapRouteMessages(
+  swapRequesterAddress: string,
+  route: SwapRoute,
+): MsgSwapWithinBatchEncodeObject[] {
+  return route.hops.map((quote) => swapMessageFromQuote(swapRequesterAddress, quote));
+}
@@ -0,0 +1,730 @@
+import { fromAscii } from "@cosmjs/encoding";
+import { Decimal } from "@cosmjs/math";
+import { Coin } from "@cosmjs/stargate";
+import { DecCoin } from "cosmjs-types/cosmos/base/v1beta1/coin";
+import {
+  Params as DistributionParamsProto,
+  ValidatorSlashEvent,
+} from "cosmjs-types/cosmos/distribution/v1beta1/distribution";
+import { QueryDelegationTotalRewardsResponse } from "cosmjs-types/cosmos/distribution/v1beta1/query";
+import {
+  Deposit as DepositProto,
+  DepositParams,
+  Proposal as ProposalProto,
+  ProposalStatus,
+  TallyParams,
+  TallyResult as TallyResultProto,
+  TextProposal,
+  Vote as VoteProto,
+  VoteOption,
+  VotingParams,
+} from "cosmjs-types/cosmos/gov/v1beta1/gov";
+import {
+  BondStatus,
+  DelegationResponse,
+  HistoricalInfo as HistoricalInfoProto,
+  Params as StakingParamsProto,
+  Pool as StakingPoolProto,
+  RedelegationResponse,
+  UnbondingDelegation as UnbondingDelegationProto,
+  Validator as ValidatorProto,
+} from "cosmjs-types/cosmos/staking/v1beta1/staking";
+import { Duration } from "cosmjs-types/google/protobuf/duration";
+import { Timestamp } from "cosmjs-types/google/protobuf/timestamp";
+
+import { DecProto } from "./codec/cosmos/base/v1beta1/coin";
+import {
+  NeuronBandwidth as NeuronBandwidthProto,
+  Params as BandwidthParamsProto,
+} from "./codec/cyber/bandwidth/v1beta1/types";
+import { QueryGraphStatsResponse } from "./codec/cyber/graph/v1beta1/query";
+import { Params as GridParamsProto, Route as RouteProto } from "./codec/cyber/grid/v1beta1/types";
+import { QuerySearchResponse } from "./codec/cyber/rank/v1beta1/query";
+import { Params as RankParamsProto } from "./codec/cyber/rank/v1beta1/types";
+import { Params as ResourcesParamsProto } from "./codec/cyber/resources/v1beta1/types";
+import {
+  DepositMsgState,
+  Params as LiquidityParamsProto,
+  Pool as PoolProto,
+  PoolBatch as PoolBatchProto,
+  SwapMsgState,
+  WithdrawMsgState,
+} from "./codec/tendermint/liquidity/v1beta1/liquidity";
+
+/** Number of fractional digits of the sdk.Dec type */
+const decFractionalDigits = 18;
+
+/**
+ * Converts the atomics of an sdk.Dec as they are encoded in protobuf
+ * (e.g. "850000000000000000") into a decimal string (e.g. "0.85").
+ */
+export function decimalFromProto(dec: string): string {
+  return Decimal.fromAtomics(dec || "0", decFractionalDigits).toString();
+}
+
+export function decimalFromDecProto(decProto: DecProto | undefined): string {
+  return decimalFromProto(decProto ? decProto.dec : "");
+}
+
+function coinsFromProto(coins: readonly Coin[]): readonly Coin[] {
+  return coins.map(({ denom, amount }) => ({ denom: denom, amount: amount }));
+}
+
+/** Converts sdk.DecCoins into coins with decimal string amounts */
+export function decCoinsFromProto(coins: readonly DecCoin[]): readonly Coin[] {
+  return coins.map(({ denom, amount }) => ({ denom: denom, amount: decimalFromProto(amount) }));
+}
+
+function dateFromProto(timestamp: Timestamp | undefined): Date | null {
+  return timestamp ? new Date(timestamp.seconds.toNumber() * 1000 + Math.floor(timestamp.nanos / 1e6)) : null;
+}
+
+/** Converts a duration into whole seconds */
+function secondsFromProto(duration: Duration | undefined): number {
+  return duration ? duration.seconds.toNumber() : 0;
+}
+
+// Graph module
+
+export interface GraphStats {
+  readonly cyberlinks: string;
+  readonly particles: string;
+}
+
+export function graphStatsFromProto({ cyberlinks, particles }: QueryGraphStatsResponse): GraphStats {
+  return {
+    cyberlinks: cyberlinks.toString(),
+    particles: particles.toString(),
+  };
+}
+
+// Rank module
+
+export interface ParticleRank {
+  readonly particle: string;
+  readonly rank: string;
+}
+
+export interface ParticleRanksPage {
+  readonly particles: readonly ParticleRank[];
+  /** Total number of entries reported by the chain */
+  readonly total: number;
+}
+
+export function particleRanksPageFromProto({ result, pagination }: QuerySearchResponse): ParticleRanksPage {
+  return {
+    particles: result.map(({ particle, rank }) => ({ particle: particle, rank: rank.toString() })),
+    total: pagination ? pagination.total : result.length,
+  };
+}
+
+export interface RankParams {
+  readonly calculationPeriod: number;
+  readonly dampingFactor: string;
+  readonly tolerance: string;
+}
+
+export function rankParamsFromProto({
+  calculationPeriod,
+  dampingFactor,
+  tolerance,
+}: RankParamsProto): RankParams {
+  return {
+    calculationPeriod: calculationPeriod.toNumber(),
+    dampingFactor: decimalFromProto(dampingFactor),
+    tolerance: decimalFromProto(tolerance),
+  };
+}
+
+// Bandwidth module
+
+export interface NeuronBandwidth {
+  readonly neuron: string;
+  readonly remainedValue: string;
+  readonly maxValue: string;
+  readonly lastUpdatedBlock: number;
+}
+
+export function neuronBandwidthFromProto({
+  neuron,
+  remainedValue,
+  maxValue,
+  lastUpdatedBlock,
+}: NeuronBandwidthProto): NeuronBandwidth {
+  return {
+    neuron: neuron,
+    remainedValue: remainedValue.toString(),
+    maxValue: maxValue.toString(),
+    lastUpdatedBlock: lastUpdatedBlock.toNumber(),
+  };
+}
+
+export interface BandwidthParams {
+  readonly recoveryPeriod: number;
+  readonly adjustPricePeriod: number;
+  readonly basePrice: string;
+  readonly baseLoad: string;
+  readonly maxBlockBandwidth: string;
+}
+
+export function bandwidthParamsFromProto({
+  recoveryPeriod,
+  adjustPricePeriod,
+  basePrice,
+  baseLoad,
+  maxBlockBandwidth,
+}: BandwidthParamsProto): BandwidthParams {
+  return {
+    recoveryPeriod: recoveryPeriod.toNumber(),
+    adjustPricePeriod: adjustPricePeriod.toNumber(),
+    basePrice: decimalFromProto(basePrice),
+    baseLoad: decimalFromProto(baseLoad),
+    maxBlockBandwidth: maxBlockBandwidth.toString(),
+  };
+}
+
+// Grid module
+
+export interface Route {
+  readonly source: string;
+  readonly destination: string;
+  readonly name: string;
+  readonly value: readonly Coin[];
+}
+
+export function routeFromProto({ source, destination, name, value }: RouteProto): Route {
+  return {
+    source: source,
+    destination: destination,
+    name: name,
+    value: coinsFromProto(value),
+  };
+}
+
+export interface GridParams {
+  readonly maxRoutes: number;
+}
+
+export function gridParamsFromProto({ maxRoutes }: GridParamsProto): GridParams {
+  return { maxRoutes: maxRoutes };
+}
+
+// Resources module
+
+export interface ResourcesParams {
+  readonly maxSlots: number;
+  readonly halvingPeriodVoltBlocks: number;
+  readonly halvingPeriodAmpereBlocks: number;
+  readonly baseInvestmintPeriodVolt: number;
+  readonly baseInvestmintPeriodAmpere: number;
+  readonly minInvestmintPeriod: number;
+  readonly baseInvestmintAmountVolt: Coin | null;
+  readonly baseInvestmintAmountAmpere: Coin | null;
+}
+
+export function resourcesParamsFromProto(params: ResourcesParamsProto): ResourcesParams {
+  return {
+    maxSlots: params.maxSlots,
+    halvingPeriodVoltBlocks: params.halvingPeriodVoltBlocks,
+    halvingPeriodAmpereBlocks: params.halvingPeriodAmpereBlocks,
+    baseInvestmintPeriodVolt: params.baseInvestmintPeriodVolt,
+    baseInvestmintPeriodAmpere: params.baseInvestmintPeriodAmpere,
+    minInvestmintPeriod: params.minInvestmintPeriod,
+    baseInvestmintAmountVolt: params.baseInvestmintAmountVolt ?? null,
+    baseInvestmintAmountAmpere: params.baseInvestmintAmountAmpere ?? null,
+  };
+}
+
+// Liquidity module
+
+export interface Pool {
+  readonly id: number;
+  readonly typeId: number;
+  readonly reserveCoinDenoms: readonly string[];
+  readonly reserveAccountAddress: string;
+  readonly poolCoinDenom: string;
+}
+
+export function poolFromProto(pool: PoolProto): Pool {
+  return {
+    id: pool.id.toNumber(),
+    typeId: pool.typeId,
+    reserveCoinDenoms: [...pool.reserveCoinDenoms],
+    reserveAccountAddress: pool.reserveAccountAddress,
+    poolCoinDenom: pool.poolCoinDenom,
+  };
+}
+
+export interface LiquidityParams {
+  readonly minInitDepositAmount: string;
+  readonly initPoolCoinMintAmount: string;
+  readonly maxReserveCoinAmount: string;
+  readonly poolCreationFee: readonly Coin[];
+  readonly swapFeeRate: string;
+  readonly withdrawFeeRate: string;
+  readonly maxOrderAmountRatio: string;
+  readonly unitBatchHeight: number;
+  readonly circuitBreakerEnabled: boolean;
+}
+
+export function liquidityParamsFromProto(params: LiquidityParamsProto): LiquidityParams {
+  return {
+    minInitDepositAmount: params.minInitDepositAmount,
+    initPoolCoinMintAmount: params.initPoolCoinMintAmount,
+    maxReserveCoinAmount: params.maxReserveCoinAmount,
+    poolCreationFee: coinsFromProto(params.poolCreationFee),
+    swapFeeRate: decimalFromProto(params.swapFeeRate),
+    withdrawFeeRate: decimalFromProto(params.withdrawFeeRate),
+    maxOrderAmountRatio: decimalFromProto(params.maxOrderAmountRatio),
+    unitBatchHeight: params.unitBatchHeight,
+    circuitBreakerEnabled: params.circuitBreakerEnabled,
+  };
+}
+
+export interface PoolBatch {
+  readonly poolId: number;
+  readonly index: number;
+  readonly beginHeight: number;
+  readonly depositMsgIndex: number;
+  readonly withdrawMsgIndex: number;
+  readonly swapMsgIndex: number;
+  readonly executed: boolean;
+}
+
+export function poolBatchFromProto(batch: PoolBatchProto): PoolBatch {
+  return {
+    poolId: batch.poolId.toNumber(),
+    index: batch.index.toNumber(),
+    beginHeight: batch.beginHeight.toNumber(),
+    depositMsgIndex: batch.depositMsgIndex.toNumber(),
+    withdrawMsgIndex: batch.withdrawMsgIndex.toNumber(),
+    swapMsgIndex: batch.swapMsgIndex.toNumber(),
+    executed: batch.executed,
+  };
+}
+
+/** State of a message waiting in or executed by a pool batch */
+export interface BatchMsgState {
+  readonly msgHeight: number;
+  readonly msgIndex: number;
+  readonly executed: boolean;
+  readonly succeeded: boolean;
+  readonly toBeDeleted: boolean;
+}
+
+export interface BatchSwapMsg extends BatchMsgState {
+  readonly orderExpiryHeight: number;
+  readonly exchangedOfferCoin: Coin | null;
+  readonly remainingOfferCoin: Coin | null;
+  readonly reservedOfferCoinFee: Coin | null;
+  readonly swapRequesterAddress: string;
+  readonly poolId: number;
+  readonly swapTypeId: number;
+  readonly offerCoin: Coin | null;
+  readonly demandCoinDenom: string;
+  readonly offerCoinFee: Coin | null;
+  /** Order price as a decimal string */
+  readonly orderPrice: string;
+}
+
+export interface BatchDepositMsg extends BatchMsgState {
+  readonly depositorAddress: string;
+  readonly poolId: number;
+  readonly depositCoins: readonly Coin[];
+}
+
+export interface BatchWithdrawMsg extends BatchMsgState {
+  readonly withdrawerAddress: string;
+  readonly poolId: number;
+  readonly poolCoin: Coin | null;
+}
+
+function batchMsgStateFromProto(state: SwapMsgState | DepositMsgState | WithdrawMsgState): BatchMsgState {
+  return {
+    msgHeight: state.msgHeight.toNumber(),
+    msgIndex: state.msgIndex.toNumber(),
+    executed: state.executed,
+    succeeded: state.succeeded,
+    toBeDeleted: state.toBeDeleted,
+  };
+}
+
+export function batchSwapMsgFromProto(state: SwapMsgState): BatchSwapMsg {
+  return {
+    ...batchMsgStateFromProto(state),
+    orderExpiryHeight: state.orderExpiryHeight.toNumber(),
+    exchangedOfferCoin: state.exchangedOfferCoin ?? null,
+    remainingOfferCoin: state.remainingOfferCoin ?? null,
+    reservedOfferCoinFee: state.reservedOfferCoinFee ?? null,
+    swapRequesterAddress: state.msg?.swapRequesterAddress ?? "",
+    poolId: state.msg ? state.msg.poolId.toNumber() : 0,
+    swapTypeId: state.msg?.swapTypeId ?? 0,
+    offerCoin: state.msg?.offerCoin ?? null,
+    demandCoinDenom: state.msg?.demandCoinDenom ?? "",
+    offerCoinFee: state.msg?.offerCoinFee ?? null,
+    orderPrice: decimalFromProto(state.msg?.orderPrice ?? ""),
+  };
+}
+
+export function batchDepositMsgFromProto(state: DepositMsgState): BatchDepositMsg {
+  return {
+    ...batchMsgStateFromProto(state),
+    depositorAddress: state.msg?.depositorAddress ?? "",
+    poolId: state.msg ? state.msg.poolId.toNumber() : 0,
+    depositCoins: coinsFromProto(state.msg?.depositCoins ?? []),
+  };
+}
+
+export function batchWithdrawMsgFromProto(state: WithdrawMsgState): BatchWithdrawMsg {
+  return {
+    ...batchMsgStateFromProto(state),
+    withdrawerAddress: state.msg?.withdrawerAddress ?? "",
+    poolId: state.msg ? state.msg.poolId.toNumber() : 0,
+    poolCoin: state.msg?.poolCoin ?? null,
+  };
+}
+
+// Staking module
+
+export interface ValidatorDescription {
+  readonly moniker: string;
+  readonly identity: string;
+  readonly website: string;
+  readonly securityContact: string;
+  readonly details: string;
+}
+
+export interface ValidatorCommission {
+  /** Commission rates as decimal strings */
+  readonly rate: string;
+  readonly maxRate: string;
+  readonly maxChangeRate: string;
+  readonly updateTime: Date | null;
+}
+
+export interface Validator {
+  readonly operatorAddress: string;
+  readonly jailed: boolean;
+  readonly status: BondStatus;
+  readonly tokens: string;
+  /** Delegator shares as a decimal string */
+  readonly delegatorShares: string;
+  readonly description: ValidatorDescription;
+  readonly unbondingHeight: number;
+  readonly unbondingTime: Date | null;
+  readonly commission: ValidatorCommission;
+  readonly minSelfDelegation: string;
+}
+
+export function validatorFromProto(validator: ValidatorProto): Validator {
+  const rates = validator.commission?.commissionRates;
+  return {
+    operatorAddress: validator.operatorAddress,
+    jailed: validator.jailed,
+    status: validator.status,
+    tokens: validator.tokens,
+    delegatorShares: decimalFromProto(validator.delegatorShares),
+    description: {
+      moniker: validator.description?.moniker ?? "",
+      identity: validator.description?.identity ?? "",
+      website: validator.description?.website ?? "",
+      securityContact: validator.description?.securityContact ?? "",
+      details: validator.description?.details ?? "",
+    },
+    unbondingHeight: validator.unbondingHeight.toNumber(),
+    unbondingTime: dateFromProto(validator.unbondingTime),
+    commission: {
+      rate: decimalFromProto(rates?.rate ?? ""),
+      maxRate: decimalFromProto(rates?.maxRate ?? ""),
+      maxChangeRate: decimalFromProto(rates?.maxChangeRate ?? ""),
+      updateTime: dateFromProto(validator.commission?.updateTime),
+    },
+    minSelfDelegation: validator.minSelfDelegation,
+  };
+}
+
+export interface Delegation {
+  readonly delegatorAddress: string;
+  readonly validatorAddress: string;
+  /** Delegator shares as a decimal string */
+  readonly shares: string;
+  /** Tokens the shares are worth */
+  readonly balance: Coin | null;
+}
+
+export function delegationFromProto({ delegation, balance }: DelegationResponse): Delegation {
+  return {
+    delegatorAddress: delegation?.delegatorAddress ?? "",
+    validatorAddress: delegation?.validatorAddress ?? "",
+    shares: decimalFromProto(delegation?.shares ?? ""),
+    balance: balance ? { denom: balance.denom, amount: balance.amount } : null,
+  };
+}
+
+export interface UnbondingDelegationEntry {
+  readonly creationHeight: number;
+  readonly completionTime: Date | null;
+  readonly initialBalance: string;
+  readonly balance: string;
+}
+
+export interface UnbondingDelegation {
+  readonly delegatorAddress: string;
+  readonly validatorAddress: string;
+  readonly entries: readonly UnbondingDelegationEntry[];
+}
+
+export function unbondingDelegationFromProto(unbonding: UnbondingDelegationProto): UnbondingDelegation {
+  return {
+    delegatorAddress: unbonding.delegatorAddress,
+    validatorAddress: unbonding.validatorAddress,
+    entries: unbonding.entries.map((entry) => ({
+      creationHeight: entry.creationHeight.toNumber(),
+      completionTime: dateFromProto(entry.completionTime),
+      initialBalance: entry.initialBalance,
+      balance: entry.balance,
+    })),
+  };
+}
+
+export interface RedelegationEntry {
+  readonly creationHeight: number;
+  readonly completionTime: Date | null;
+  readonly initialBalance: string;
+  /** Shares created at the destination validator, as a decimal string */
+  readonly sharesDst: string;
+  readonly balance: string;
+}
+
+export interface Redelegation {
+  readonly delegatorAddress: string;
+  readonly validatorSrcAddress: string;
+  readonly validatorDstAddress: string;
+  readonly entries: readonly RedelegationEntry[];
+}
+
+export function redelegationFromProto({ redelegation, entries }: RedelegationResponse): Redelegation {
+  return {
+    delegatorAddress: redelegation?.delegatorAddress ?? "",
+    validatorSrcAddress: redelegation?.validatorSrcAddress ?? "",
+    validatorDstAddress: redelegation?.validatorDstAddress ?? "",
+    entries: entries.map(({ redelegationEntry, balance }) => ({
+      creationHeight: redelegationEntry ? redelegationEntry.creationHeight.toNumber() : 0,
+      completionTime: dateFromProto(redelegationEntry?.completionTime),
+      initialBalance: redelegationEntry?.initialBalance ?? "",
+      sharesDst: decimalFromProto(redelegationEntry?.sharesDst ?? ""),
+      balance: balance,
+    })),
+  };
+}
+
+export interface HistoricalInfo {
+  readonly height: number;
+  readonly time: Date | null;
+  readonly validators: readonly Validator[];
+}
+
+export function historicalInfoFromProto({ header, valset }: HistoricalInfoProto): HistoricalInfo {
+  return {
+    height: header ? header.height.toNumber() : 0,
+    time: dateFromProto(header?.time),
+    validators: valset.map(validatorFromProto),
+  };
+}
+
+export interface StakingParams {
+  /** Unbonding time in seconds */
+  readonly unbondingTime: number;
+  readonly maxValidators: number;
+  readonly maxEntries: number;
+  readonly historicalEntries: number;
+  readonly bondDenom: string;
+}
+
+export function stakingParamsFromProto(params: StakingParamsProto): StakingParams {
+  return {
+    unbondingTime: secondsFromProto(params.unbondingTime),
+    maxValidators: params.maxValidators,
+    maxEntries: params.maxEntries,
+    historicalEntries: params.historicalEntries,
+    bondDenom: params.bondDenom,
+  };
+}
+
+export interface StakingPool {
+  readonly notBondedTokens: string;
+  readonly bondedTokens: string;
+}
+
+export function stakingPoolFromProto({ notBondedTokens, bondedTokens }: StakingPoolProto): StakingPool {
+  return { notBondedTokens: notBondedTokens, bondedTokens: bondedTokens };
+}
+
+// Distribution module
+
+export interface DistributionParams {
+  /** Rates as decimal strings */
+  readonly communityTax: string;
+  readonly baseProposerReward: string;
+  readonly bonusProposerReward: string;
+  readonly withdrawAddrEnabled: boolean;
+}
+
+export function distributionParamsFromProto(params: DistributionParamsProto): DistributionParams {
+  return {
+    communityTax: decimalFromProto(params.communityTax),
+    baseProposerReward: decimalFromProto(params.baseProposerReward),
+    bonusProposerReward: decimalFromProto(params.bonusProposerReward),
+    withdrawAddrEnabled: params.withdrawAddrEnabled,
+  };
+}
+
+export interface DelegationRewards {
+  readonly validatorAddress: string;
+  /** Rewards with decimal string amounts */
+  readonly reward: readonly Coin[];
+}
+
+export interface DelegationTotalRewards {
+  readonly rewards: readonly DelegationRewards[];
+  /** Sum of the rewards with decimal string amounts */
+  readonly total: readonly Coin[];
+}
+
+export function delegationTotalRewardsFromProto({
+  rewards,
+  total,
+}: QueryDelegationTotalRewardsResponse): DelegationTotalRewards {
+  return {
+    rewards: rewards.map(({ validatorAddress, reward }) => ({
+      validatorAddress: validatorAddress,
+      reward: decCoinsFromProto(reward),
+    })),
+    total: decCoinsFromProto(total),
+  };
+}
+
+export interface ValidatorSlash {
+  readonly validatorPeriod: number;
+  /** Slashed fraction as a decimal string */
+  readonly fraction: string;
+}
+
+export function validatorSlashFromProto({ validatorPeriod, fraction }: ValidatorSlashEvent): ValidatorSlash {
+  return { validatorPeriod: validatorPeriod.toNumber(), fraction: decimalFromProto(fraction) };
+}
+
+// Gov module
+
+export interface ProposalContent {
+  readonly typeUrl: string;
+  readonly title: string;
+  readonly description: string;
+}
+
+export interface TallyResult {
+  readonly yes: string;
+  readonly abstain: string;
+  readonly no: string;
+  readonly noWithVeto: string;
+}
+
+export interface Proposal {
+  readonly id: number;
+  readonly content: ProposalContent | null;
+  readonly status: ProposalStatus;
+  readonly finalTallyResult: TallyResult | null;
+  readonly submitTime: Date | null;
+  readonly depositEndTime: Date | null;
+  readonly totalDeposit: readonly Coin[];
+  readonly votingStartTime: Date | null;
+  readonly votingEndTime: Date | null;
+}
+
+export function tallyResultFromProto({ yes, abstain, no, noWithVeto }: TallyResultProto): TallyResult {
+  return { yes: yes, abstain: abstain, no: no, noWithVeto: noWithVeto };
+}
+
+export function proposalFromProto(proposal: ProposalProto): Proposal {
+  // The proposal contents of the SDK and its modules all start with title and description,
+  // so they can be read without knowing the content type
+  const content = proposal.content && TextProposal.decode(proposal.content.value);
+  return {
+    id: proposal.proposalId.toNumber(),
+    content:
+      proposal.content && content
+        ? { typeUrl: proposal.content.typeUrl, title: content.title, description: content.description }
+        : null,
+    status: proposal.status,
+    finalTallyResult: proposal.finalTallyResult ? tallyResultFromProto(proposal.finalTallyResult) : null,
+    submitTime: dateFromProto(proposal.submitTime),
+    depositEndTime: dateFromProto(proposal.depositEndTime),
+    totalDeposit: coinsFromProto(proposal.totalDeposit),
+    votingStartTime: dateFromProto(proposal.votingStartTime),
+    votingEndTime: dateFromProto(proposal.votingEndTime),
+  };
+}
+
+export interface WeightedVote {
+  readonly option: VoteOption;
+  /** Weight as a decimal string */
+  readonly weight: string;
+}
+
+export interface Vote {
+  readonly proposalId: number;
+  readonly voter: string;
+  readonly options: readonly WeightedVote[];
+}
+
+export function voteFromProto({ proposalId, voter, option, options }: VoteProto): Vote {
+  return {
+    proposalId: proposalId.toNumber(),
+    voter: voter,
+    // Votes cast before weighted voting only set the deprecated single option
+    options: options.length
+      ? options.map(({ option: weightedOption, weight }) => ({
+          option: weightedOption,
+          weight: decimalFromProto(weight),
+        }))
+      : [{ option: option, weight: "1" }],
+  };
+}
+
+export interface Deposit {
+  readonly proposalId: number;
+  readonly depositor: string;
+  readonly amount: readonly Coin[];
+}
+
+export function depositFromProto({ proposalId, depositor, amount }: DepositProto): Deposit {
+  return { proposalId: proposalId.toNumber(), depositor: depositor, amount: coinsFromProto(amount) };
+}
+
+export interface GovParams {
+  readonly minDeposit: readonly Coin[];
+  /** Maximum deposit period in seconds */
+  readonly maxDepositPeriod: number;
+  /** Voting period in seconds */
+  readonly votingPeriod: number;
+  /** Tally thresholds as decimal strings */
+  readonly quorum: string;
+  readonly threshold: string;
+  readonly vetoThreshold: string;
+}
+
+export function govParamsFromProto(
+  depositParams: DepositParams,
+  votingParams: VotingParams,
+  tallyParams: TallyParams,
+): GovParams {
+  // The tally params are sdk.Dec atomics encoded as bytes
+  return {
+    minDeposit: coinsFromProto(depositParams.minDeposit),
+    maxDepositPeriod: secondsFromProto(depositParams.maxDepositPeriod),
+    votingPeriod: secondsFromProto(votingParams.votingPeriod),
+    quorum: decimalFromProto(fromAscii(tallyParams.quorum)),
+    threshold: decimalFromProto(fromAscii(tallyParams.threshold)),
+    vetoThreshold: decimalFromProto(fromAscii(tallyParams.vetoThreshold)),
+  };
+}
@@ -29,6 +29,7 @@ async function main() {
     },
     "volt",
     100,
+    "auto",
   );
   console.log(JSON.stringify(response, null, 4));
 
@@ -41,6 +42,7 @@ async function main() {
     },
     "amper",
     100,
+    "auto",
   );
   console.log(JSON.stringify(response, null, 4));
 
@@ -50,6 +52,7 @@ async function main() {
       myAddress,
       "QmRX8qYgeZoYM3M5zzQaWEpVFdpin6FvVXvp6RPQK3oufV",
       "QmUX9mt8ftaHcn9Nc6SR4j9MsKkYfkcZqkfPTmMmBgeTe4",
+      "auto",
     );
     console.log(JSON.stringify(response, null, 4));
   } catch (error) {
@@ -62,6 +65,7 @@ async function main() {
       myAddress,
       "QmRX8qYgeZoYM3M5zzQaWEpVFdpin6FvVXvp6RPQK3oufV",
       "QmUX9mt8ftaHcn9Nc6SR4j9MsKkYfkcZqkfPTmMmBgeTe5",
+      "auto",
     );
     console.log(JSON.stringify(response, null, 4));
   } catch (error) {
@@ -74,6 +78,7 @@ async function main() {
       myAddress,
       "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp",
       "synapse",
+      "auto",
     );
     console.log(JSON.stringify(response, null, 4));
   } catch (error) {
@@ -82,10 +87,15 @@ async function main() {
 
   console.log("Edit Route - Volt");
   try {
-    var response = await client.editEnergyRoute(myAddress, "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp", {
-      denom: "volt",
-      amount: "2",
-    });
+    var response = await client.editEnergyRoute(
+      myAddress,
+      "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp",
+      {
+        denom: "volt",
+        amount: "2",
+      },
+      "auto",
+    );
     console.log(JSON.stringify(response, null, 4));
   } catch (error) {
     console.log(error);
@@ -93,10 +103,15 @@ async function main() {
 
   console.log("Edit Route - Amper");
   try {
-    var response = await client.editEnergyRoute(myAddress, "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp", {
-      denom: "amper",
-      amount: "2",
-    });
+    var response = await client.editEnergyRoute(
+      myAddress,
+      "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp",
+      {
+        denom: "amper",
+        amount: "2",
+      },
+      "auto",
+    );
     console.log(JSON.stringify(response, null, 4));
   } catch (error) {
     console.log(error);
@@ -108,6 +123,7 @@ async function main() {
       myAddress,
       "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp",
       "synapse1",
+      "auto",
     );
     console.log(JSON.stringify(response, null, 4));
   } catch (error) {
@@ -116,12 +132,17 @@ async function main() {
 
   console.log("Send Tokens - Nick\n");
   try {
-    var response = await client.sendTokens(myAddress, "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp", [
-      {
-        denom: "nick",
-        amount: "8",
-      },
-    ]);
+    var response = await client.sendTokens(
+      myAddress,
+      "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp",
+      [
+        {
+          denom: "nick",
+          amount: "8",
+        },
+      ],
+      "auto",
+    );
     console.log(JSON.stringify(response, null, 4));
   } catch (error) {
     console.log(error);
@@ -129,12 +150,17 @@ async function main() {
 
   console.log("Send Tokens - Volt\n");
   try {
-    var response = await client.sendTokens(myAddress, "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp", [
-      {
-        denom: "volt",
-        amount: "8",
-      },
-    ]);
+    var response = await client.sendTokens(
+      myAddress,
+      "cyber1njj4p35u8pggm7nypg3y66rypgvk2atjcy7ngp",
+      [
+        {
+          denom: "volt",
+          amount: "8",
+        },
+      ],
+      "auto",
+    );
     console.log(JSON.stringify(response, null, 4));
   } catch (error) {
     console.log(error);